@@ -10,6 +10,7 @@ import { Login } from './pages/Login';
 import { Register } from './pages/Register';
 import { NewTrip } from './pages/NewTrip';
 import { TripView } from './pages/TripView';
+import { SharedTrip } from './pages/SharedTrip';
 
 const libraries: ("places" | "geometry" | "drawing" | "visualization")[] = ["places"];
 
@@ -41,6 +42,7 @@ function App() {
                 <Route path="/register" element={<Register />} />
                 <Route path="/new-trip" element={<NewTrip />} />
                 <Route path="/trip/:id" element={<TripView />} />
+                <Route path="/share/:token" element={<SharedTrip />} />
               </Routes>
             </div>
           </Router>
@@ -1,27 +1,22 @@
-import React, { useState } from 'react';
-import { Wand2, Loader2, AlertTriangle, Info } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Wand2, Loader2, AlertTriangle, Info, X } from 'lucide-react';
+import { isAiError } from '../lib/ai-errors';
 import { generateItinerary } from '../lib/google-ai';
-
-interface Location {
-  name: string;
-  description?: string;
-  estimatedDuration: number;
-  bestTimeToVisit?: string;
-  dayIndex: number;
-}
-
-interface PreferredPlace {
-  name: string;
-  preferredDay: number | null;
-}
+import { PreferredPlace } from '../lib/itinerary-model';
+import { Location } from '../lib/itinerary-schema';
+import { TRANSPORT_MODE_LABELS } from '../lib/travel-time';
+import { TransportMode } from '../types/trip';
 
 interface AiItineraryGeneratorProps {
   startPoint: string;
   endPoint: string;
   duration: number;
   pace: 'relaxed' | 'balanced' | 'intensive';
+  transportationMode: TransportMode;
   mustVisitPlaces: PreferredPlace[];
-  onItineraryGenerated: (locations: Location[]) => void;
+  bookedStays?: ({ name: string; address: string } | undefined)[];  // By night
+  onItineraryGenerated: (locations: Location[]) => void | Promise<void>;
+  onDayGenerated?: (dayIndex: number, locations: Location[]) => void;  // Each day as it streams in
 }
 
 export function AiItineraryGenerator({
@@ -29,13 +24,21 @@ export function AiItineraryGenerator({
   endPoint,
   duration,
   pace,
+  transportationMode,
   mustVisitPlaces,
-  onItineraryGenerated
+  bookedStays,
+  onItineraryGenerated,
+  onDayGenerated
 }: AiItineraryGeneratorProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [showQuotaError, setShowQuotaError] = useState(false);
+  const [quotaError, setQuotaError] = useState<string | null>(null);
   const [showConfigError, setShowConfigError] = useState(false);
+  const [readyDays, setReadyDays] = useState<Set<number>>(new Set());
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight generation when the builder goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const handleGenerate = async () => {
     if (mustVisitPlaces.length === 0) {
@@ -45,8 +48,12 @@ export function AiItineraryGenerator({
 
     setIsGenerating(true);
     setError(null);
-    setShowQuotaError(false);
+    setQuotaError(null);
     setShowConfigError(false);
+    setReadyDays(new Set());
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
       const itinerary = await generateItinerary(
@@ -54,20 +61,37 @@ export function AiItineraryGenerator({
         endPoint,
         duration,
         mustVisitPlaces,
-        pace
+        pace,
+        transportationMode,
+        {
+          bookedStays,
+          signal: controller.signal,
+          onDay: (dayIndex, locations) => {
+            setReadyDays(prev => new Set(prev).add(dayIndex));
+            onDayGenerated?.(dayIndex, locations);
+          },
+        }
       );
-      onItineraryGenerated(itinerary);
+      await onItineraryGenerated(itinerary);
     } catch (err) {
+      // Cancelled by the user; days already shown are kept
+      if (controller.signal.aborted) return;
+
       const errorMessage = err instanceof Error ? err.message : 'Failed to generate itinerary';
       
-      if (errorMessage.includes('API key')) {
+      if (isAiError(err) && err.code === 'API_KEY_INVALID') {
         setShowConfigError(true);
-      } else if (errorMessage.includes('limit reached') || errorMessage.includes('quota')) {
-        setShowQuotaError(true);
+      } else if (isAiError(err) && (err.code === 'RESOURCE_EXHAUSTED' || err.code === 'QUOTA_EXCEEDED')) {
+        setQuotaError(err.code === 'QUOTA_EXCEEDED'
+          ? "You've used today's AI generation allowance. Please try again tomorrow or continue with manual planning."
+          : 'The AI itinerary generation is currently unavailable due to high demand. Please try again later or continue with manual planning.');
       } else {
         setError(errorMessage);
       }
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsGenerating(false);
     }
   };
@@ -86,17 +110,14 @@ export function AiItineraryGenerator({
     );
   }
 
-  if (showQuotaError) {
+  if (quotaError) {
     return (
       <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
         <div className="flex items-center gap-3 text-amber-600 mb-2">
           <AlertTriangle className="h-5 w-5" />
           <h3 className="font-medium">AI Generation Temporarily Unavailable</h3>
         </div>
-        <p className="text-amber-600 text-sm">
-          The AI itinerary generation is currently unavailable due to high demand. 
-          Please try again later or continue with manual planning.
-        </p>
+        <p className="text-amber-600 text-sm">{quotaError}</p>
       </div>
     );
   }
@@ -116,6 +137,7 @@ export function AiItineraryGenerator({
               <li>Geographic proximity to minimize travel time</li>
               <li>Best times to visit each location</li>
               <li>Your preferred travel pace ({pace})</li>
+              <li>How you get around ({TRANSPORT_MODE_LABELS[transportationMode].toLowerCase()})</li>
               <li>Logical day-to-day progression</li>
               <li>Travel times between locations</li>
             </ul>
@@ -130,27 +152,42 @@ export function AiItineraryGenerator({
         </div>
       )}
 
-      <button
-        onClick={handleGenerate}
-        disabled={isGenerating || mustVisitPlaces.length === 0}
-        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-md hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-      >
-        {isGenerating ? (
-          <>
-            <Loader2 className="h-5 w-5 animate-spin" />
-            <span>Generating Your Perfect Itinerary...</span>
-          </>
-        ) : (
-          <>
-            <Wand2 className="h-5 w-5" />
-            <span>Generate AI Itinerary</span>
-          </>
+      <div className="flex gap-2">
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating || mustVisitPlaces.length === 0}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-md hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {isGenerating ? (
+            <>
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span>
+                {readyDays.size > 0
+                  ? `Generating... ${readyDays.size} of ${duration} days ready`
+                  : 'Generating Your Perfect Itinerary...'}
+              </span>
+            </>
+          ) : (
+            <>
+              <Wand2 className="h-5 w-5" />
+              <span>Generate AI Itinerary</span>
+            </>
+          )}
+        </button>
+        {isGenerating && (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="flex items-center gap-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            <X className="h-4 w-4" />
+            Cancel
+          </button>
         )}
-      </button>
+      </div>
 
       {!isGenerating && mustVisitPlaces.length === 0 && (
         <p className="text-sm text-gray-500 text-center">
-          Add some must-visit places above to generate an AI itinerary
+          Add some must-visit places to generate an AI itinerary
         </p>
       )}
     </div>
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { MapPin, ThumbsUp, ThumbsDown, MessageSquare, X, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { LocationSearch } from './LocationSearch';
+import { PlacesImport } from './PlacesImport';
+import { TripCandidate } from '../types/trip';
+import { getScore, getVote, rankCandidates } from '../lib/candidates';
+
+export interface NewCandidate {
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface CandidatePlacesProps {
+  candidates: TripCandidate[];
+  tripDays: number;
+  currentUserId: string;
+  canEdit: boolean;  // Editors add, schedule and remove places; everyone votes and comments
+  onAdd: (places: NewCandidate[], preferredDay: number | null) => Promise<void>;
+  onDayChange: (candidateId: string, preferredDay: number | null) => Promise<void>;
+  onRemove: (candidateId: string) => Promise<void>;
+  onVote: (candidateId: string, value: 1 | -1 | null) => Promise<void>;
+  onComment: (candidateId: string, body: string) => Promise<void>;
+}
+
+export function CandidatePlaces({
+  candidates,
+  tripDays,
+  currentUserId,
+  canEdit,
+  onAdd,
+  onDayChange,
+  onRemove,
+  onVote,
+  onComment,
+}: CandidatePlacesProps) {
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  const [openCommentsId, setOpenCommentsId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleVote = (candidate: TripCandidate, value: 1 | -1) =>
+    // Voting the same way again takes the vote back
+    run(() => onVote(candidate.id, getVote(candidate, currentUserId) === value ? null : value), 'Failed to save your vote');
+
+  const handleRemove = (candidate: TripCandidate) => {
+    if (!confirm(`Remove ${candidate.name} along with its votes and comments?`)) return;
+    run(() => onRemove(candidate.id), 'Failed to remove the place');
+  };
+
+  const handleComment = async (e: React.FormEvent, candidateId: string) => {
+    e.preventDefault();
+    if (!comment.trim()) return;
+
+    setIsCommenting(true);
+    await run(async () => {
+      await onComment(candidateId, comment.trim());
+      setComment('');
+    }, 'Failed to post the comment');
+    setIsCommenting(false);
+  };
+
+  const parseDay = (value: string) => value === 'any' ? null : Number(value);
+
+  const dayOptions = (
+    <>
+      <option value="any">Any Day</option>
+      {Array.from({ length: tripDays }).map((_, dayIndex) => (
+        <option key={dayIndex} value={dayIndex}>
+          Day {dayIndex + 1}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center gap-2 mb-1">
+        <MapPin className="h-5 w-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Must-Visit Places</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Vote on the places you most want to see. When they don't all fit, the best-voted ones make it in.
+      </p>
+
+      {canEdit && (
+        <div className="flex gap-4 items-center mb-4">
+          <select
+            value={selectedDay ?? 'any'}
+            onChange={(e) => setSelectedDay(parseDay(e.target.value))}
+            className="block w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {dayOptions}
+          </select>
+          <LocationSearch
+            onLocationSelect={(location) => run(() => onAdd([location], selectedDay), 'Failed to add the place')}
+          />
+        </div>
+      )}
+
+      {candidates.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {canEdit ? 'No places suggested yet. Search for one above or import a list.' : 'No places suggested yet.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {rankCandidates(candidates).map(candidate => {
+            const score = getScore(candidate);
+            const myVote = getVote(candidate, currentUserId);
+            const commentsOpen = openCommentsId === candidate.id;
+
+            return (
+              <div key={candidate.id} className="bg-gray-50 p-3 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleVote(candidate, 1)}
+                      className={`p-1 rounded transition-colors ${myVote === 1 ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}`}
+                      title={myVote === 1 ? 'Take back your upvote' : 'Upvote'}
+                    >
+                      <ThumbsUp className="h-4 w-4" />
+                    </button>
+                    <span
+                      className={`w-6 text-center text-sm font-medium ${score > 0 ? 'text-green-700' : score < 0 ? 'text-red-700' : 'text-gray-600'}`}
+                    >
+                      {score}
+                    </span>
+                    <button
+                      onClick={() => handleVote(candidate, -1)}
+                      className={`p-1 rounded transition-colors ${myVote === -1 ? 'text-red-600' : 'text-gray-400 hover:text-red-600'}`}
+                      title={myVote === -1 ? 'Take back your downvote' : 'Downvote'}
+                    >
+                      <ThumbsDown className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="flex-grow min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{candidate.name}</p>
+                    {candidate.address && candidate.address !== candidate.name && (
+                      <p className="text-sm text-gray-500 truncate">{candidate.address}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => {
+                      setOpenCommentsId(commentsOpen ? null : candidate.id);
+                      setComment('');
+                    }}
+                    className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+                    title="Comments"
+                  >
+                    <MessageSquare className="h-4 w-4" />
+                    {candidate.comments.length > 0 && candidate.comments.length}
+                  </button>
+                  <select
+                    value={candidate.preferredDay ?? 'any'}
+                    onChange={(e) => run(
+                      () => onDayChange(candidate.id, parseDay(e.target.value)),
+                      'Failed to change the day'
+                    )}
+                    disabled={!canEdit}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {dayOptions}
+                  </select>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleRemove(candidate)}
+                      className="text-gray-400 hover:text-red-600 transition-colors"
+                      title="Remove place"
+                    >
+                      <X className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+
+                {commentsOpen && (
+                  <div className="mt-3 ml-20 space-y-2">
+                    {candidate.comments.map(entry => (
+                      <div key={entry.id} className="text-sm">
+                        <span className="font-medium text-gray-900">{entry.authorEmail || 'Someone'}</span>
+                        <span className="text-gray-400"> · {format(entry.createdAt, 'MMM d, HH:mm')}</span>
+                        <p className="text-gray-700 whitespace-pre-line">{entry.body}</p>
+                      </div>
+                    ))}
+                    <form onSubmit={(e) => handleComment(e, candidate.id)} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        placeholder="Add a comment"
+                        className="flex-grow px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <button
+                        type="submit"
+                        disabled={isCommenting || !comment.trim()}
+                        className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {isCommenting ? 'Posting...' : 'Post'}
+                      </button>
+                    </form>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="mt-4">
+          <PlacesImport
+            onPlacesImport={(places) => run(() => onAdd(places, null), 'Failed to import the places')}
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
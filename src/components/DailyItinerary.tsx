@@ -1,6 +1,15 @@
-import React from 'react';
-import { Clock, MapPin, Trash2, GripVertical, Star } from 'lucide-react';
+import React, { useState } from 'react';
+import { Clock, MapPin, Trash2, GripVertical, Star, Pin, Lock, AlertTriangle, Settings, Utensils, Footprints, Bus, Car, Bike, RefreshCw, Wand2, Loader2, BedDouble, Flag, Plane, Eye, AlarmClock } from 'lucide-react';
 import { format } from 'date-fns';
+import { DaySchedule, LocationKind, OpeningHours, PriceTier, TransportMode, TripSegment } from '../types/trip';
+import { formatOpeningHours, formatTime, parseTime } from '../lib/schedule';
+import { buildDayTimeline } from '../lib/timeline';
+import { TRANSPORT_MODE_LABELS, estimateTravelTime } from '../lib/travel-time';
+import { isHotelStop } from '../lib/itinerary-optimizer';
+import { formatSegment } from '../lib/segments';
+import { getDstShift, getZoneAbbreviation } from '../lib/time-zone';
+import { DayScheduleSettings } from './DayScheduleSettings';
+import { UnresolvedLocation } from './UnresolvedLocation';
 
 interface Location {
   id: string;
@@ -12,25 +21,108 @@ interface Location {
   arrival_time?: string;
   rating?: number;
   notes?: string;
+  pinned_day?: number | null;
+  pinned_position?: number | null;
+  pinned_time?: string | null;
+  opening_hours?: OpeningHours | null;
   travelTimeToNext?: number;
+  transportation_mode?: TransportMode | null;
+  kind?: LocationKind;
+  nights?: number | null;
+  price_tier?: PriceTier | null;
+  amenities?: string[] | null;
+}
 
+interface StayPoint {
+  name: string;
+  latitude: number;
+  longitude: number;
 }
 
 interface DailyItineraryProps {
   date: Date;
   locations: Location[];
+  schedule: DaySchedule;
+  availableSchedule?: DaySchedule;  // `schedule` narrowed around today's arrival and departure
+  arriving?: TripSegment;
+  departing?: TripSegment;
+  timeZone: string;                 // Where the day is spent; every time shown is on its clock
+  onScheduleChange: (schedule: DaySchedule) => void;
   onLocationsChange: (locations: Location[]) => void;
   onLocationRemove: (locationId: string) => void;
   onDropLocation: (locationId: string, targetDate: Date) => void;
+  onTogglePin: (locationId: string, position: number, mode: 'day' | 'position' | 'time', time?: string) => void;
+  transportationMode: TransportMode;
+  onTransportModeChange: (locationId: string, mode: TransportMode | null) => void;
+  color: string;           // The day's colour on the trip map
+  isSelected: boolean;     // Highlighted on the trip map
+  onSelect: () => void;
+  highlightedLocationId: string | null;
+  onResolveLocation: (
+    locationId: string,
+    location: { name: string; address: string; latitude: number; longitude: number }
+  ) => void;
+  onRegenerateDay: () => void;
+  onSuggestAlternative: (locationId: string) => void;
+  isRegenerating: boolean;               // An AI request is in flight somewhere in the trip
+  regeneratingTarget: 'day' | string | null;  // This whole day, one of its stops' IDs, or neither
+  startFrom?: StayPoint;      // Last night's hotel
+  returnTo?: StayPoint;       // Tonight's hotel, when it was checked into on an earlier day
+  finishAt?: StayPoint;       // The trip's return point, on the last day
+  maxNights: number;          // Nights left in the trip after this day, for hotels checked in today
+  onLocationUpdate: (locationId: string, changes: Partial<Location>) => void;
+  viewers?: string[];         // Other members looking at this day right now
+  readOnly?: boolean;         // Shows the day without any editing controls
 }
 
+const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  attraction: 'Attraction',
+  hotel: 'Hotel',
+  meal: 'Meal',
+  transport_hub: 'Transport hub',
+};
+
+const TRANSPORT_MODE_ICONS = {
+  walk: Footprints,
+  transit: Bus,
+  drive: Car,
+  bike: Bike,
+};
+
 export function DailyItinerary({
   date,
   locations,
+  schedule: daySchedule,
+  availableSchedule = daySchedule,
+  arriving,
+  departing,
+  timeZone,
+  onScheduleChange,
   onLocationsChange,
   onLocationRemove,
   onDropLocation,
+  onTogglePin,
+  transportationMode,
+  onTransportModeChange,
+  color,
+  isSelected,
+  onSelect,
+  highlightedLocationId,
+  onResolveLocation,
+  onRegenerateDay,
+  onSuggestAlternative,
+  isRegenerating,
+  regeneratingTarget,
+  startFrom,
+  returnTo,
+  finishAt,
+  maxNights,
+  onLocationUpdate,
+  viewers = [],
+  readOnly = false,
 }: DailyItineraryProps) {
+  const [showSettings, setShowSettings] = useState(false);
+
   const handleDragStart = (id: string) => (e: React.DragEvent<HTMLDivElement>) => {
     e.dataTransfer.setData('text/plain', id);
     e.dataTransfer.effectAllowed = 'move';
@@ -48,6 +140,28 @@ export function DailyItinerary({
     }
   };
 
+  const { stops: schedule, overrun } = buildDayTimeline(
+    locations,
+    date,
+    availableSchedule,
+    transportationMode,
+    startFrom,
+    timeZone,
+    returnTo ?? finishAt
+  );
+  const dstShift = getDstShift(date, timeZone);
+
+  // When the day reaches the return point, after the last stop and the trip there
+  const lastStop = locations[locations.length - 1];
+  const finishArrival = finishAt && lastStop && lastStop.latitude && finishAt.latitude
+    ? schedule[schedule.length - 1].departure +
+      estimateTravelTime(lastStop, finishAt, { mode: lastStop.transportation_mode || transportationMode })
+    : null;
+
+  // Numbers match the trip map's markers, where hotels are marked "H"
+  let stopNumber = 0;
+  const markerLabels = locations.map(location => isHotelStop(location) ? 'H' : String(++stopNumber));
+
   const handleReorder = (fromIndex: number, toIndex: number) => {
     const updated = [...locations];
     const [moved] = updated.splice(fromIndex, 1);
@@ -56,22 +170,105 @@ export function DailyItinerary({
   };
 
   return (
-    <div className="bg-white rounded-lg shadow-md p-6">
-      <h3 className="text-lg font-semibold text-gray-900 mb-6">
-        {format(date, 'EEEE, MMMM d')}
-      </h3>
+    <div
+      className="bg-white rounded-lg shadow-md p-6 border-l-4"
+      style={{ borderLeftColor: color, boxShadow: isSelected ? `0 0 0 2px ${color}` : undefined }}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {format(date, 'EEEE, MMMM d')}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {availableSchedule.startTime} – {availableSchedule.endTime} {getZoneAbbreviation(timeZone, date)}
+          </p>
+          {dstShift && (
+            <p className="text-sm text-amber-700">
+              Clocks go {dstShift.shift > 0 ? 'forward' : 'back'} {Math.abs(dstShift.shift)} min at {formatTime(dstShift.at)}
+            </p>
+          )}
+          {viewers.length > 0 && (
+            <p className="flex items-center gap-1 text-sm text-blue-600">
+              <Eye className="h-4 w-4" />
+              {viewers.join(', ')} {viewers.length === 1 ? 'is' : 'are'} looking at this day
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {!readOnly && (
+            <button
+              onClick={onRegenerateDay}
+              disabled={isRegenerating}
+              className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+              title="Regenerate this day with AI, keeping pinned stops"
+            >
+              {regeneratingTarget === 'day'
+                ? <Loader2 className="h-5 w-5 animate-spin" />
+                : <RefreshCw className="h-5 w-5" />}
+            </button>
+          )}
+          <button
+            onClick={onSelect}
+            className={`transition-colors ${isSelected ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'}`}
+            title={isSelected ? 'Show all days on the map' : 'Show this day on the map'}
+          >
+            <MapPin className="h-5 w-5" />
+          </button>
+          {!readOnly && (
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Day settings"
+            >
+              <Settings className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showSettings && (
+        <div className="mb-6">
+          <DayScheduleSettings schedule={daySchedule} onChange={onScheduleChange} />
+        </div>
+      )}
+
+      {overrun > 0 && (
+        <div className="flex items-center gap-2 mb-6 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>
+            This day runs {overrun} min past its planned end at {availableSchedule.endTime}. Remove a stop or move it to another day.
+          </span>
+        </div>
+      )}
 
       <div
         className="space-y-6"
-        onDragOver={handleDragOver}
-        onDrop={handleDrop}
+        onDragOver={readOnly ? undefined : handleDragOver}
+        onDrop={readOnly ? undefined : handleDrop}
       >
+        {arriving && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Plane className="h-4 w-4 text-gray-400" />
+            <span>
+              {formatSegment(arriving)} arrives at {arriving.arrivalStation}{' '}
+              {format(arriving.arrivalTime, 'HH:mm')}
+            </span>
+          </div>
+        )}
+
+        {startFrom && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <BedDouble className="h-4 w-4 text-gray-400" />
+            <span>Starts from {startFrom.name}</span>
+          </div>
+        )}
+
         {locations.map((location, index) => (
           <div
             key={location.id}
-            draggable
-            onDragStart={handleDragStart(location.id)}
-            onDragOver={(e) => {
+            draggable={!readOnly}
+            onDragStart={readOnly ? undefined : handleDragStart(location.id)}
+            onDragOver={readOnly ? undefined : (e) => {
               e.preventDefault();
               if (e.currentTarget !== e.target) return;
               const draggingId = e.dataTransfer.getData('text/plain');
@@ -85,11 +282,24 @@ export function DailyItinerary({
             className="space-y-4"
           >
             {/* Location Card */}
-            <div className="bg-white rounded-lg shadow-md">
+            <div
+              id={`stop-${location.id}`}
+              className={`bg-white rounded-lg shadow-md transition-shadow ${
+                highlightedLocationId === location.id ? 'ring-2 ring-blue-400' : ''
+              }`}
+            >
               {/* Header */}
               <div className="flex items-center p-4 border-b border-gray-100">
-                <div className="text-gray-400 hover:text-gray-600 cursor-grab mr-3">
-                  <GripVertical className="h-5 w-5" />
+                {!readOnly && (
+                  <div className="text-gray-400 hover:text-gray-600 cursor-grab mr-3">
+                    <GripVertical className="h-5 w-5" />
+                  </div>
+                )}
+                <div
+                  className="flex items-center justify-center h-6 w-6 rounded-full text-xs font-bold text-white mr-3 flex-shrink-0"
+                  style={{ backgroundColor: color }}
+                >
+                  {markerLabels[index]}
                 </div>
                 <div className="flex-grow">
                   <h4 className="text-lg font-medium text-gray-900">{location.name}</h4>
@@ -101,25 +311,109 @@ export function DailyItinerary({
                   )}
                 </div>
                 <div className="flex items-center gap-3">
+                  {!readOnly && (
+                    <>
+                      <button
+                        onClick={() => onTogglePin(location.id, index, 'day')}
+                        className={`transition-colors ${
+                          location.pinned_day !== null && location.pinned_day !== undefined
+                            ? 'text-blue-600 hover:text-blue-800'
+                            : 'text-gray-400 hover:text-gray-600'
+                        }`}
+                        title="Keep on this day when optimizing"
+                      >
+                        <Pin className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => onTogglePin(location.id, index, 'position')}
+                        className={`transition-colors ${
+                          location.pinned_position !== null && location.pinned_position !== undefined
+                            ? 'text-blue-600 hover:text-blue-800'
+                            : 'text-gray-400 hover:text-gray-600'
+                        }`}
+                        title="Keep at this position when optimizing"
+                      >
+                        <Lock className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => onTogglePin(location.id, index, 'time', formatTime(schedule[index].start))}
+                        className={`transition-colors ${
+                          location.pinned_time ? 'text-blue-600 hover:text-blue-800' : 'text-gray-400 hover:text-gray-600'
+                        }`}
+                        title="Start at this time when optimizing"
+                      >
+                        <AlarmClock className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => onSuggestAlternative(location.id)}
+                        disabled={isRegenerating}
+                        className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+                        title="Suggest an alternative with AI"
+                      >
+                        {regeneratingTarget === location.id
+                          ? <Loader2 className="h-5 w-5 animate-spin" />
+                          : <Wand2 className="h-5 w-5" />}
+                      </button>
+                    </>
+                  )}
                   {location.rating && (
                     <div className="flex items-center text-yellow-500">
                       <Star className="h-4 w-4 fill-current" />
                       <span className="ml-1 text-sm">{location.rating}</span>
                     </div>
                   )}
-                  <button
-                    onClick={() => onLocationRemove(location.id)}
-                    className="text-gray-400 hover:text-red-600 transition-colors"
-                  >
-                    <Trash2 className="h-5 w-5" />
-                  </button>
+                  {!readOnly && (
+                    <button
+                      onClick={() => onLocationRemove(location.id)}
+                      className="text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  )}
                 </div>
               </div>
 
               {/* Details */}
               <div className="p-4 bg-gray-50">
                 <div className="space-y-3">
-                  {location.arrival_time && (
+                  {!readOnly && !location.latitude && !location.longitude && (
+                    <UnresolvedLocation
+                      location={location}
+                      onResolve={(resolved) => onResolveLocation(location.id, resolved)}
+                    />
+                  )}
+                  <div className="flex items-center text-sm text-gray-600">
+                    <Clock className="h-4 w-4 mr-2" />
+                    <span>
+                      Arrive {formatTime(schedule[index].arrival)}
+                      {schedule[index].wait > 0 &&
+                        ` (${location.pinned_time ? 'starts' : 'opens'} ${formatTime(schedule[index].start)})`}
+                      {' · '}Leave {formatTime(schedule[index].departure)}
+                    </span>
+                    {formatOpeningHours(location.opening_hours, date) && (
+                      <span className="ml-3 text-gray-500">{formatOpeningHours(location.opening_hours, date)}</span>
+                    )}
+                  </div>
+                  {location.pinned_time && (
+                    <div className="flex items-center text-sm text-gray-600">
+                      <AlarmClock className="h-4 w-4 mr-2" />
+                      <span className="mr-2">Starts at</span>
+                      <input
+                        type="time"
+                        value={location.pinned_time}
+                        onChange={(e) => e.target.value && onLocationUpdate(location.id, { pinned_time: e.target.value })}
+                        disabled={readOnly}
+                        className="px-2 py-0.5 border border-gray-300 rounded-md text-sm"
+                      />
+                    </div>
+                  )}
+                  {schedule[index].issue && (
+                    <div className="flex items-center text-sm text-red-600">
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      <span>{schedule[index].issue}</span>
+                    </div>
+                  )}
+                  {location.arrival_time && parseTime(location.arrival_time) === null && (
                     <div className="flex items-center text-sm text-gray-600">
                       <Clock className="h-4 w-4 mr-2" />
                       <span>Best time to visit: {location.arrival_time}</span>
@@ -131,6 +425,46 @@ export function DailyItinerary({
                       <span>Recommended duration: {Math.round(location.estimated_duration / 60)} hours</span>
                     </div>
                   )}
+                  {isHotelStop(location) && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                      <BedDouble className="h-4 w-4" />
+                      <select
+                        value={location.nights || 1}
+                        onChange={(e) => onLocationUpdate(location.id, { nights: Number(e.target.value) })}
+                        disabled={readOnly}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        title="Nights at this hotel"
+                      >
+                        {Array.from({ length: Math.max(maxNights, location.nights || 1) }, (_, i) => i + 1).map(nights => (
+                          <option key={nights} value={nights}>{nights} night{nights === 1 ? '' : 's'}</option>
+                        ))}
+                      </select>
+                      {location.price_tier && (
+                        <span className="font-medium text-gray-700" title="Price range">{'$'.repeat(location.price_tier)}</span>
+                      )}
+                      {location.amenities?.map(amenity => (
+                        <span key={amenity} className="px-2 py-0.5 bg-white border border-gray-200 rounded-full text-xs">
+                          {amenity}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center text-sm text-gray-600">
+                    <select
+                      value={isHotelStop(location) ? 'hotel' : location.kind || 'attraction'}
+                      onChange={(e) => {
+                        const kind = e.target.value as LocationKind;
+                        onLocationUpdate(location.id, { kind, nights: kind === 'hotel' ? 1 : null });
+                      }}
+                      disabled={readOnly}
+                      className="bg-transparent border-none p-0 pr-6 text-sm text-gray-500 focus:ring-0"
+                      title="What kind of stop this is"
+                    >
+                      {(Object.keys(LOCATION_KIND_LABELS) as LocationKind[]).map(kind => (
+                        <option key={kind} value={kind}>{LOCATION_KIND_LABELS[kind]}</option>
+                      ))}
+                    </select>
+                  </div>
                   {location.notes && (
                     <div className="text-sm text-gray-700 mt-2 border-t border-gray-200 pt-3">
                       {location.notes}
@@ -140,34 +474,89 @@ export function DailyItinerary({
               </div>
             </div>
 
+            {/* Meal breaks after this stop */}
+            {schedule[index].breaksAfter.map(mealBreak => (
+              <div
+                key={mealBreak.label}
+                className="flex items-center gap-2 ml-8 text-sm text-gray-600 bg-orange-50 border border-orange-100 rounded-lg px-4 py-2"
+              >
+                <Utensils className="h-4 w-4 text-orange-500" />
+                <span>
+                  {mealBreak.label} {formatTime(mealBreak.start)}–{formatTime(mealBreak.end)}
+                </span>
+              </div>
+            ))}
+
             {/* Timeline to next */}
-            {index < locations.length - 1 && (
-              <div className="relative pl-8 py-2">
-                <div className="absolute left-4 top-0 bottom-0 w-0.5 bg-gray-200"></div>
-                <div className="relative flex items-center">
-                  <div className="absolute -left-6 p-1.5 bg-white border-2 border-gray-200 rounded-full flex">
-                    <Clock className="h-4 w-4 text-gray-400" />
-                  </div>
-                  <div className="ml-4 bg-gray-50 px-4 py-2 rounded-lg text-sm text-gray-600">
-                    <div className="font-medium">To {locations[index + 1].name}</div>
-                    <div className="text-gray-500">
-                      {(() => {
-                        if (!location.travelTimeToNext) return 'Travel time not available';
-                        
-                        if (!location.travelTimeToNext) return 'Travel time not available';
-                        return `${location.travelTimeToNext} min`;
-                      })()}
+            {index < locations.length - 1 && (() => {
+              const legMode = location.transportation_mode || transportationMode;
+              const ModeIcon = TRANSPORT_MODE_ICONS[legMode];
+              return (
+                <div className="relative pl-8 py-2">
+                  <div className="absolute left-4 top-0 bottom-0 w-0.5 bg-gray-200"></div>
+                  <div className="relative flex items-center">
+                    <div className="absolute -left-6 p-1.5 bg-white border-2 border-gray-200 rounded-full flex">
+                      <ModeIcon className="h-4 w-4 text-gray-400" />
+                    </div>
+                    <div className="ml-4 bg-gray-50 px-4 py-2 rounded-lg text-sm text-gray-600">
+                      <div className="font-medium">To {locations[index + 1].name}</div>
+                      <div className="flex items-center gap-2 text-gray-500">
+                        <span>
+                          {schedule[index + 1]?.travelTime
+                            ? `${schedule[index + 1].travelTime} min`
+                            : 'Travel time not available'}
+                        </span>
+                        <select
+                          value={location.transportation_mode || ''}
+                          onChange={(e) => onTransportModeChange(location.id, (e.target.value || null) as TransportMode | null)}
+                          disabled={readOnly}
+                          className="bg-transparent border-none p-0 pr-6 text-sm text-gray-500 focus:ring-0"
+                          title="How to get to the next stop"
+                        >
+                          <option value="">{TRANSPORT_MODE_LABELS[transportationMode]} (trip default)</option>
+                          {(Object.keys(TRANSPORT_MODE_LABELS) as TransportMode[]).map(mode => (
+                            <option key={mode} value={mode}>{TRANSPORT_MODE_LABELS[mode]}</option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            )}
+              );
+            })()}
           </div>
         ))}
 
         {locations.length === 0 && (
           <div className="text-center py-8 text-gray-500">
-            No locations added for this day. Use the search box above to add locations.
+            No locations added for this day.{!readOnly && ' Use the search box above to add locations.'}
+          </div>
+        )}
+
+        {returnTo && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <BedDouble className="h-4 w-4 text-gray-400" />
+            <span>Back to {returnTo.name} for the night</span>
+          </div>
+        )}
+
+        {departing && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Plane className="h-4 w-4 text-gray-400" />
+            <span>
+              {formatSegment(departing)} leaves {departing.departureStation}{' '}
+              {format(departing.departureTime, 'HH:mm')}
+            </span>
+          </div>
+        )}
+
+        {finishAt && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Flag className="h-4 w-4 text-gray-400" />
+            <span>
+              Trip ends at {finishAt.name}
+              {finishArrival !== null && ` · Arrive ${formatTime(finishArrival)}`}
+            </span>
           </div>
         )}
       </div>
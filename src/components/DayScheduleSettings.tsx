@@ -0,0 +1,93 @@
+import { DaySchedule, MealSlot } from '../types/trip';
+
+interface DayScheduleSettingsProps {
+  schedule: DaySchedule;
+  onChange: (schedule: DaySchedule) => void;
+}
+
+const DEFAULT_MEALS: Record<'lunch' | 'dinner', MealSlot> = {
+  lunch: { time: '12:30', duration: 60 },
+  dinner: { time: '19:00', duration: 90 },
+};
+
+export function DayScheduleSettings({ schedule, onChange }: DayScheduleSettingsProps) {
+  const inputClass =
+    'block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  const handleMealChange = (meal: 'lunch' | 'dinner', slot: MealSlot | null) => {
+    onChange({ ...schedule, [meal]: slot });
+  };
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 bg-gray-50 rounded-lg p-4 text-sm">
+      <label className="block">
+        <span className="text-gray-700">Day starts</span>
+        <input
+          type="time"
+          value={schedule.startTime}
+          onChange={(e) => onChange({ ...schedule, startTime: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+      <label className="block">
+        <span className="text-gray-700">Day ends</span>
+        <input
+          type="time"
+          value={schedule.endTime}
+          onChange={(e) => onChange({ ...schedule, endTime: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+      <label className="block">
+        <span className="text-gray-700">Buffer between stops (min)</span>
+        <input
+          type="number"
+          min={0}
+          value={schedule.bufferMinutes}
+          onChange={(e) => onChange({ ...schedule, bufferMinutes: Math.max(0, Number(e.target.value) || 0) })}
+          className={inputClass}
+        />
+      </label>
+
+      {(['lunch', 'dinner'] as const).map(meal => {
+        const slot = schedule[meal];
+        return (
+          <div key={meal} className="col-span-2 sm:col-span-3 flex items-end gap-4">
+            <label className="flex items-center gap-2 pb-1.5 w-24">
+              <input
+                type="checkbox"
+                checked={Boolean(slot)}
+                onChange={(e) => handleMealChange(meal, e.target.checked ? DEFAULT_MEALS[meal] : null)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-gray-700 capitalize">{meal}</span>
+            </label>
+            {slot && (
+              <>
+                <label className="block">
+                  <span className="text-gray-700">At</span>
+                  <input
+                    type="time"
+                    value={slot.time}
+                    onChange={(e) => handleMealChange(meal, { ...slot, time: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-gray-700">For (min)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={slot.duration}
+                    onChange={(e) => handleMealChange(meal, { ...slot, duration: Math.max(0, Number(e.target.value) || 0) })}
+                    className={inputClass}
+                  />
+                </label>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
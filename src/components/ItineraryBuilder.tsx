@@ -1,11 +1,27 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { addDays, differenceInDays } from 'date-fns';
 import { DailyItinerary } from './DailyItinerary';
-import { LocationSearch } from './LocationSearch';
-import { PlacesImport } from './PlacesImport';
 import { SmartItineraryOptimizer } from './SmartItineraryOptimizer';
 import { AiItineraryGenerator } from './AiItineraryGenerator';
-import { Save, Plus, X, Check } from 'lucide-react';
+import { ItineraryChat } from './ItineraryChat';
+import { TripMap } from './TripMap';
+import { StopConflicts } from './StopConflicts';
+import { Save, Plus, Check, Clock } from 'lucide-react';
+import { DaySchedule, LocationKind, OpeningHours, PriceTier, TransportMode, TripCandidate, TripSegment, TripStay } from '../types/trip';
+import { fetchOpeningHours } from '../lib/places';
+import { geocodeAddress, geocodeAddresses } from '../lib/geocoding';
+import { generateItinerary } from '../lib/google-ai';
+import { ItineraryEdit, applyEdits, pinStart } from '../lib/itinerary-edits';
+import { getStayByNight, isHotelStop } from '../lib/itinerary-optimizer';
+import { Location as AiLocation, stripHotelPrefix } from '../lib/itinerary-schema';
+import { DEFAULT_DAY_SCHEDULE, formatTime } from '../lib/schedule';
+import { getStaysByNight } from '../lib/stays';
+import { getScore, rankCandidates } from '../lib/candidates';
+import { applySegmentWindow, getDaySegments, toTimeZone } from '../lib/segments';
+import { buildDayTimeline } from '../lib/timeline';
+import { getDayColor } from '../lib/day-colors';
+import { estimateTravelTime, travelTimeService } from '../lib/travel-time';
+import { StopConflict, TripPresence, mergeSavedStops } from '../lib/collaboration';
 
 export interface Location {
   id: string;
@@ -19,28 +35,77 @@ export interface Location {
   arrival_time?: string;
   rating?: number;
   notes?: string;
+  pinned_day?: number | null;       // Optimizer must keep the stop on this day
+  pinned_position?: number | null;  // ...and at this position within the day
+  pinned_time?: string | null;      // ...and start at this time (HH:mm)
+  opening_hours?: OpeningHours | null;
+  transportation_mode?: TransportMode | null;  // Overrides the trip's mode for the leg to the next stop
+  kind?: LocationKind;
+  nights?: number | null;          // Hotels: nights booked, starting the night of day_index
+  price_tier?: PriceTier | null;
+  amenities?: string[] | null;
+  revision?: number;          // Times the stop has been saved, to spot concurrent edits
   travelTimeToNext?: number;  // UI-only field
 }
 
+// Stops saved before geocoding, or that couldn't be geocoded, sit at 0/0
+const hasCoordinates = (location?: { latitude: number; longitude: number }) =>
+  Boolean(location && (location.latitude || location.longitude));
+
+// The AI recommends a hotel for every night; the same hotel on consecutive
+// nights becomes one stay of several nights
+function mergeConsecutiveStays(locations: Location[]): Location[] {
+  const merged: Location[] = [];
+  let stay: Location | null = null;
+
+  for (const location of locations) {
+    if (!isHotelStop(location)) {
+      merged.push(location);
+      continue;
+    }
+    const nights = stay?.nights || 1;
+    if (stay && stay.day_index + nights === location.day_index && isSameName(stay.name, location.name)) {
+      stay.nights = nights + (location.nights || 1);
+      continue;
+    }
+    stay = { ...location };
+    merged.push(stay);
+  }
+
+  return merged;
+}
+
+const isSameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
 interface ItineraryBuilderProps {
   tripId: string;
   startDate: Date;
   endDate: Date;
   pace: 'relaxed' | 'balanced' | 'intensive';
+  transportationMode: TransportMode;
   departurePoint: {
     latitude: number;
     longitude: number;
     name: string;
     address: string;
   };
-  onSave: (locations: Location[]) => Promise<void>;
-  mustVisitPlaces: string[];
-  initialLocations?: Location[]; // Add this line
-}
-
-interface MustVisitPlace {
-  name: string;
-  dayIndex: number | 'unknown';
+  returnPoint: {
+    latitude: number;
+    longitude: number;
+    name: string;
+    address: string;
+  };
+  stays: TripStay[];
+  segments: TripSegment[];
+  airportBufferMinutes: number;
+  timeZone: string;
+  readOnly?: boolean;  // Viewers see the plan but can't change or save it
+  onSave: (locations: Location[], daySchedules: Record<number, DaySchedule>) => Promise<void>;
+  candidates?: TripCandidate[];  // Must-visit places, with members' votes
+  savedLocations?: Location[];  // As last saved, kept current with other members' saves
+  initialDaySchedules?: Record<number, DaySchedule>;
+  viewers?: TripPresence[];     // Other members with the trip open
+  onFocusDay?: (dayIndex: number | null) => void;
 }
 
 export function ItineraryBuilder({
@@ -48,53 +113,127 @@ export function ItineraryBuilder({
   startDate,
   endDate,
   pace,
+  transportationMode,
   departurePoint,
+  returnPoint,
+  stays,
+  segments,
+  airportBufferMinutes,
+  timeZone,
+  readOnly = false,
   onSave,
-  mustVisitPlaces: initialMustVisitPlaces,
-  initialLocations = [], // Add default value
+  candidates = [],
+  savedLocations = [],
+  initialDaySchedules = {},
+  viewers = [],
+  onFocusDay,
 }: ItineraryBuilderProps) {
-  const [locations, setLocations] = useState<Location[]>(initialLocations);
-  const [selectedDay, setSelectedDay] = useState<number | 'unknown'>('unknown');
+  const [locations, setLocations] = useState<Location[]>(savedLocations);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [saveSuccess, setSaveSuccess] = useState(false);
-  const [isFirstLoad, setIsFirstLoad] = useState(true);
-  const [mustVisitPlaces, setMustVisitPlaces] = useState<MustVisitPlace[]>(
-    initialMustVisitPlaces.map(place => ({ name: place, dayIndex: 'unknown' }))
-  );
+  const [isFetchingHours, setIsFetchingHours] = useState(false);
+  const [geocodingCount, setGeocodingCount] = useState(0);
+  const [regenerating, setRegenerating] = useState<{ dayIndex: number; locationId?: string } | null>(null);
+  const [mapDay, setMapDay] = useState<number | null>(null);
+  const [highlightedLocationId, setHighlightedLocationId] = useState<string | null>(null);
+  const [daySchedules, setDaySchedules] = useState<Record<number, DaySchedule>>(initialDaySchedules);
 
-  // Only update locations from initialLocations on first load
+  const [conflicts, setConflicts] = useState<StopConflict<Location>[]>([]);
+
+  // Bring newly saved stops, ours or other members', into the local edits.
+  // The ref holds the saved version the local edits are based on.
+  const mergedFromRef = useRef(savedLocations);
   useEffect(() => {
-    if (isFirstLoad) {
-      console.log('Initial load - setting locations:', initialLocations);
-      setLocations(initialLocations);
-      setIsFirstLoad(false);
+    const base = mergedFromRef.current;
+    if (savedLocations === base) return;
+    mergedFromRef.current = savedLocations;
+
+    const { merged, conflicts: found } = mergeSavedStops(locations, base, savedLocations);
+    if (merged !== locations) setLocations(merged);
+    if (found.length > 0) {
+      setConflicts(prev => [...prev.filter(conflict => !found.some(other => other.id === conflict.id)), ...found]);
     }
-  }, [initialLocations, isFirstLoad]);
+  }, [savedLocations, locations]);
 
-  const tripDays = differenceInDays(endDate, startDate) + 1;
+  useEffect(() => {
+    onFocusDay?.(mapDay);
+  }, [mapDay, onFocusDay]);
 
-  const handleAddMustVisitPlace = (location: Omit<Location, 'id' | 'day_index'>) => {
-    const newPlace: MustVisitPlace = {
-      name: location.name,
-      dayIndex: selectedDay,
-    };
-    setMustVisitPlaces(prev => [...prev, newPlace]);
-    setError(null);
+  // Keeping ours needs nothing more: the next save writes it over theirs
+  const handleResolveConflict = (conflict: StopConflict<Location>, keep: 'mine' | 'theirs') => {
+    const { id, theirs } = conflict;
+    if (keep === 'theirs') {
+      setLocations(prev => {
+        if (!theirs) return prev.filter(loc => loc.id !== id);
+        return prev.some(loc => loc.id === id)
+          ? prev.map(loc => loc.id === id ? { ...loc, ...theirs } : loc)
+          : [...prev, theirs];
+      });
+    }
+    setConflicts(prev => prev.filter(other => other.id !== id));
   };
 
-  const handleRemoveMustVisitPlace = (index: number) => {
-    setMustVisitPlaces(prev => prev.filter((_, i) => i !== index));
-  };
+  // Fetch road travel times for each day's stops; bumping the counter
+  // re-renders the timelines once they arrive
+  const [, setTravelTimesLoaded] = useState(0);
+  // Bumped when a generated itinerary is applied, so late streamed days are dropped
+  const aiRunRef = useRef(0);
+  // The latest locations, for AI callbacks that outlive the render they came from
+  const locationsRef = useRef(locations);
+  useEffect(() => {
+    locationsRef.current = locations;
+  }, [locations]);
+  useEffect(() => {
+    let cancelled = false;
+    const days = new Map<number, Location[]>();
+    locations
+      .filter(loc => loc.latitude && loc.longitude)
+      .forEach(loc => days.set(loc.day_index, [...(days.get(loc.day_index) || []), loc]));
 
-  const handleDayChange = (index: number, newDay: number | 'unknown') => {
-    setMustVisitPlaces(prev => {
-      const updated = [...prev];
-      updated[index] = { ...updated[index], dayIndex: newDay };
-      return updated;
+    const requests = Array.from(days.values()).flatMap(dayLocations => [
+      travelTimeService.prefetch(dayLocations, { mode: transportationMode }),
+      // Legs with their own mode only need that one pair
+      ...dayLocations.slice(0, -1)
+        .filter(loc => loc.transportation_mode)
+        .map(loc => {
+          const next = dayLocations[dayLocations.indexOf(loc) + 1];
+          return travelTimeService.prefetch([loc, next], { mode: loc.transportation_mode! });
+        }),
+    ]);
+    Promise.all(requests).then(() => {
+      if (!cancelled) setTravelTimesLoaded(count => count + 1);
     });
+    return () => {
+      cancelled = true;
+    };
+  }, [locations, transportationMode]);
+
+  const tripDays = differenceInDays(endDate, startDate) + 1;
+
+  const getDayLocations = (dayIndex: number) =>
+    locations.filter(loc => loc.day_index === dayIndex);
+
+  // Where each night is spent; the next day starts there. Booked stays come
+  // first, then hotel stops in the itinerary.
+  const stayByNight = getStayByNight(locations, tripDays);
+  const bookedByNight = getStaysByNight(stays, startDate, tripDays);
+  const getNightStay = (night: number) => bookedByNight[night] ?? stayByNight.get(night);
+
+  // A day runs on the clock where it's spent: tonight's booked stay, else
+  // last night's, else the trip's zone
+  const getDayTimeZone = (dayIndex: number) =>
+    (bookedByNight[dayIndex] ?? bookedByNight[dayIndex - 1])?.timeZone || timeZone;
+  const getDayTravel = (dayIndex: number) => {
+    const dayTimeZone = getDayTimeZone(dayIndex);
+    return getDaySegments(segments.map(segment => toTimeZone(segment, dayTimeZone)), addDays(startDate, dayIndex));
   };
 
+  const getDaySchedule = (dayIndex: number) => daySchedules[dayIndex] || DEFAULT_DAY_SCHEDULE;
+  // The part of the day left once arrivals and departures are allowed for
+  const getAvailableSchedule = (dayIndex: number) =>
+    applySegmentWindow(getDaySchedule(dayIndex), getDayTravel(dayIndex), airportBufferMinutes);
+
   const handleDropLocation = (locationId: string, targetDate: Date) => {
     const targetDayIndex = differenceInDays(targetDate, startDate);
   
@@ -103,6 +242,9 @@ export function ItineraryBuilder({
         loc.id === locationId ? {
           ...loc,
           day_index: targetDayIndex,
+          // Moving a pinned stop by hand re-pins it to its new day
+          pinned_day: loc.pinned_day === null || loc.pinned_day === undefined ? loc.pinned_day : targetDayIndex,
+          pinned_position: null,
           // Preserve all other fields
           name: loc.name,
           address: loc.address || loc.name,  // Ensure address is set
@@ -118,11 +260,35 @@ export function ItineraryBuilder({
     );
   };  
 
-  const handleAiItineraryGenerated = (aiLocations: any[]) => {
-    const existingLocationMap = new Map(locations.map(loc => [loc.name, loc]));
-    
-    const newLocations = aiLocations.map(loc => {
-      const existingLocation = existingLocationMap.get(loc.name);
+  // Turns AI stops into builder locations, reusing stops we already have by
+  // name and looking up coordinates for the rest. Stops that can't be found
+  // keep 0/0 and are flagged for the user to fix.
+  const toBuilderLocations = async (generated: AiLocation[]): Promise<Location[]> => {
+    // The return point is shown as the last day's fixed final stop, so the
+    // AI's copy of it isn't kept as a stop of its own
+    const returnName = returnPoint.name || returnPoint.address;
+    const aiLocations = generated.filter(loc =>
+      !(loc.dayIndex === tripDays - 1 && !loc.isHotel && isSameName(loc.name, returnName))
+    );
+    const existingLocationMap = new Map(locationsRef.current.map(loc => [loc.name, loc]));
+    const nameOf = (loc: AiLocation) => loc.isHotel ? stripHotelPrefix(loc.name) : loc.name;
+
+    const toGeocode = aiLocations.filter(loc => !hasCoordinates(existingLocationMap.get(nameOf(loc))));
+    setGeocodingCount(count => count + 1);
+    const geocoded = new Map<string, { latitude: number; longitude: number }>();
+    try {
+      const results = await geocodeAddresses(toGeocode.map(loc => loc.address || loc.name));
+      results.forEach((result, index) => {
+        if (result) geocoded.set(nameOf(toGeocode[index]), result);
+      });
+    } finally {
+      setGeocodingCount(count => count - 1);
+    }
+
+    return aiLocations.map(loc => {
+      const name = nameOf(loc);
+      const existingLocation = existingLocationMap.get(name);
+      const coordinates = hasCoordinates(existingLocation) ? existingLocation! : geocoded.get(name);
       return {
         // If we have an existing location with this name, use its ID and data
         ...(existingLocation || {
@@ -130,25 +296,222 @@ export function ItineraryBuilder({
           latitude: 0,
           longitude: 0,
         }),
-        name: loc.name,
-        address: loc.address || loc.name,  // Ensure address is never empty
+        name,
+        address: loc.address || name,  // Ensure address is never empty
         day_index: loc.dayIndex,
-        latitude: existingLocation?.latitude || 0,  // Default to 0 if no coordinates
-        longitude: existingLocation?.longitude || 0,
+        latitude: coordinates?.latitude || 0,  // 0/0 marks a stop we couldn't locate
+        longitude: coordinates?.longitude || 0,
+        kind: loc.isHotel ? 'hotel' as const : existingLocation?.kind ?? 'attraction',
+        nights: loc.isHotel ? existingLocation?.nights || 1 : null,
+        price_tier: loc.isHotel ? (loc.priceTier as PriceTier | undefined) ?? null : existingLocation?.price_tier,
+        amenities: loc.isHotel ? loc.amenities ?? null : existingLocation?.amenities,
         estimated_duration: loc.estimatedDuration,
         arrival_time: loc.bestTimeToVisit,
         notes: loc.description,
-        travelTimeToNext: loc.travelTimeToNext,
+        travelTimeToNext: loc.travelTimeToNext ?? undefined,
+        // Only keep the AI's leg mode when it differs from the trip's
+        transportation_mode: loc.transportModeToNext && loc.transportModeToNext !== transportationMode
+          ? loc.transportModeToNext
+          : null,
       };
     });
+  };
+
+  // Shows a streamed day in place of whatever that day held before. Called
+  // without waiting, so it reports its own failures.
+  const handleAiDayGenerated = async (dayIndex: number, aiLocations: AiLocation[]) => {
+    const run = aiRunRef.current;
+    try {
+      const dayLocations = await toBuilderLocations(aiLocations);
+      // The finished itinerary may have landed while we were geocoding
+      if (run !== aiRunRef.current) return;
+
+      setLocations(prev => {
+        const kept = prev.filter(loc => loc.day_index !== dayIndex);
+        // A stop reused by name can still be on a day that hasn't streamed in yet
+        const keptIds = new Set(kept.map(loc => loc.id));
+        const streamed = dayLocations.map(loc => keptIds.has(loc.id) ? { ...loc, id: crypto.randomUUID() } : loc);
+        return [
+          ...kept.filter(loc => loc.day_index < dayIndex),
+          ...streamed,
+          ...kept.filter(loc => loc.day_index > dayIndex),
+        ];
+      });
+    } catch (err) {
+      setError(`Couldn't show day ${dayIndex + 1} while generating: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleAiItineraryGenerated = async (aiLocations: AiLocation[]) => {
+    const newLocations = mergeConsecutiveStays(await toBuilderLocations(aiLocations));
+    aiRunRef.current++;
     setLocations(newLocations);
   };
 
+  // Applies reviewed chat edits. New stops are looked up on the map first;
+  // any that can't be found keep 0/0 and are flagged like generated ones.
+  const handleApplyEdits = async (edits: ItineraryEdit[]) => {
+    const addresses = edits.flatMap(edit => edit.op === 'add' ? [edit.address] : []);
+    setGeocodingCount(count => count + 1);
+    let coordinates: ({ latitude: number; longitude: number } | null)[];
+    try {
+      coordinates = await Promise.all(addresses.map(address => geocodeAddress(address).catch(() => null)));
+    } finally {
+      setGeocodingCount(count => count - 1);
+    }
+
+    // Built up front so the state update stays pure and gives every stop one id
+    const newStops = new Map<ItineraryEdit, Location>(
+      edits.filter(edit => edit.op === 'add').map((edit, index) => {
+        const point = coordinates[index];
+        const isHotel = isHotelStop(edit);
+        return [edit, {
+          id: crypto.randomUUID(),
+          name: isHotel ? stripHotelPrefix(edit.name) : edit.name,
+          address: edit.address,
+          day_index: edit.dayIndex,
+          kind: isHotel ? 'hotel' : 'attraction',
+          nights: isHotel ? 1 : null,
+          latitude: point?.latitude || 0,
+          longitude: point?.longitude || 0,
+          estimated_duration: edit.estimatedDuration,
+          ...(edit.arrivalTime ? pinStart(edit.dayIndex, edit.arrivalTime) : {}),
+          notes: edit.notes,
+        }];
+      })
+    );
+    setLocations(prev => applyEdits(prev, edits, edit => newStops.get(edit)!));
+  };
+
+  // Must-visit places for the AI, best-voted first
+  const mustVisitPlaces = rankCandidates(candidates).map(candidate => ({
+    name: candidate.name,
+    preferredDay: candidate.preferredDay,
+    score: getScore(candidate),
+  }));
+
+  // Must-visit places not scheduled on another day that could go on this one
+  const getOpenMustVisits = (dayIndex: number) =>
+    mustVisitPlaces
+      .filter(place => place.preferredDay === null || place.preferredDay === dayIndex)
+      .filter(place => !locations.some(loc => loc.day_index !== dayIndex && isSameName(loc.name, place.name)));
+
+  const getPlannedElsewhere = (dayIndex: number) =>
+    locations.filter(loc => loc.day_index !== dayIndex).map(loc => loc.name);
+
+  // Re-plans one day around its pinned stops, leaving every other day as it is
+  const handleRegenerateDay = async (dayIndex: number) => {
+    const dayLocations = getDayLocations(dayIndex);
+    const fixedStops = dayLocations.filter(loc =>
+      (loc.pinned_day !== null && loc.pinned_day !== undefined) ||
+      (loc.pinned_position !== null && loc.pinned_position !== undefined)
+    );
+    const previousHotel = getNightStay(dayIndex - 1);
+    const bookedTonight = bookedByNight[dayIndex];
+    const currentHotel = dayLocations.find(isHotelStop);
+    // Tonight is already booked, or covered by an earlier hotel stop
+    const continuingStay = getNightStay(dayIndex) !== currentHotel;
+    const otherDayIds = new Set(locations.filter(loc => loc.day_index !== dayIndex).map(loc => loc.id));
+
+    setRegenerating({ dayIndex });
+    setError(null);
+    try {
+      const aiLocations = await generateItinerary(
+        departurePoint.name || departurePoint.address,
+        returnPoint.name || returnPoint.address,
+        tripDays,
+        getOpenMustVisits(dayIndex),
+        pace,
+        transportationMode,
+        {
+          scope: {
+            kind: 'day',
+            dayIndex,
+            startFrom: previousHotel && { name: previousHotel.name, address: previousHotel.address },
+            endAt: bookedTonight && { name: bookedTonight.name, address: bookedTonight.address },
+            fixedStops: fixedStops.map(loc => ({ name: loc.name, address: loc.address })),
+            plannedElsewhere: getPlannedElsewhere(dayIndex),
+          },
+        }
+      );
+
+      // Stops matched by name to another day would end up there twice. A new
+      // hotel takes over the old one's nights, unless tonight is already booked.
+      const newDay = (await toBuilderLocations(aiLocations))
+        .filter(loc => !otherDayIds.has(loc.id))
+        .filter(loc => !(continuingStay && isHotelStop(loc)))
+        .map(loc => isHotelStop(loc) ? { ...loc, nights: currentHotel?.nights || 1 } : loc);
+      // Pinned stops the AI left out go back in at their pinned position
+      fixedStops
+        .filter(stop => !newDay.some(loc => loc.id === stop.id))
+        .forEach(stop => newDay.splice(stop.pinned_position ?? newDay.length, 0, stop));
+
+      setLocations(prev => [
+        ...prev.filter(loc => loc.day_index < dayIndex),
+        ...newDay,
+        ...prev.filter(loc => loc.day_index > dayIndex),
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate the day');
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  // Swaps one stop for an AI suggestion in the same slot
+  const handleSuggestAlternative = async (locationId: string) => {
+    const target = locations.find(loc => loc.id === locationId);
+    if (!target) return;
+    const dayIndex = target.day_index;
+
+    setRegenerating({ dayIndex, locationId });
+    setError(null);
+    try {
+      const aiLocations = await generateItinerary(
+        departurePoint.name || departurePoint.address,
+        returnPoint.name || returnPoint.address,
+        tripDays,
+        getOpenMustVisits(dayIndex),
+        pace,
+        transportationMode,
+        {
+          scope: {
+            kind: 'stop',
+            dayIndex,
+            stop: { name: target.name, address: target.address, isHotel: isHotelStop(target) },
+            dayStops: getDayLocations(dayIndex).map(loc => ({ name: loc.name, address: loc.address })),
+            plannedElsewhere: getPlannedElsewhere(dayIndex),
+          },
+        }
+      );
+
+      const [suggestion] = await toBuilderLocations(aiLocations);
+      if (locations.some(loc => loc.id === suggestion.id)) {
+        throw new Error(`The AI suggested ${suggestion.name}, which is already in the itinerary. Please try again.`);
+      }
+      setLocations(prev => prev.map(loc =>
+        loc.id === locationId
+          ? {
+              ...suggestion,
+              pinned_day: target.pinned_day,
+              pinned_position: target.pinned_position,
+              nights: isHotelStop(suggestion) ? target.nights || 1 : null,
+            }
+          : loc
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest an alternative');
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
   const handleOptimizedItinerary = (optimizedDays: any) => {
     const existingLocationMap = new Map(locations.map(loc => [loc.id, loc]));
     
     const newLocations = optimizedDays.flatMap((day: any, dayIndex: number) =>
-      day.locations.map((location: any) => {
+      day.locations.map((location: any, index: number) => {
+        const next = day.locations[index + 1];
         // Preserve existing location data
         const existingLocation = existingLocationMap.get(location.id);
         return {
@@ -162,14 +525,110 @@ export function ItineraryBuilder({
           estimated_duration: existingLocation?.estimated_duration,
           arrival_time: existingLocation?.arrival_time,
           rating: existingLocation?.rating,
-          notes: existingLocation?.notes
+          notes: existingLocation?.notes,
+          // The old leg no longer applies after reordering
+          travelTimeToNext: next
+            ? estimateTravelTime(location, next, { mode: existingLocation?.transportation_mode || transportationMode })
+            : undefined
         };
       })
     );
     setLocations(newLocations);
   };
 
-  // Remove unused function
+  const handleLocationUpdate = (locationId: string, changes: Partial<Location>) => {
+    setLocations(prev => prev.map(loc => loc.id === locationId ? { ...loc, ...changes } : loc));
+  };
+
+  const handleTransportModeChange = (locationId: string, mode: TransportMode | null) => {
+    setLocations(prev =>
+      prev.map(loc => loc.id === locationId ? { ...loc, transportation_mode: mode } : loc)
+    );
+  };
+
+  const handleResolveLocation = (
+    locationId: string,
+    resolved: { name: string; address: string; latitude: number; longitude: number }
+  ) => {
+    setLocations(prev =>
+      prev.map(loc => loc.id === locationId ? {
+        ...loc,
+        address: resolved.address || loc.address,
+        latitude: resolved.latitude,
+        longitude: resolved.longitude,
+      } : loc)
+    );
+  };
+
+  const handleMapLocationClick = (locationId: string) => {
+    document.getElementById(`stop-${locationId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedLocationId(locationId);
+    setTimeout(() => setHighlightedLocationId(current => current === locationId ? null : current), 2000);
+  };
+
+  // Position and time pins keep the stop on its day too. `time` is when the
+  // visit starts now, which a new time pin keeps.
+  const handleTogglePin = (locationId: string, position: number, mode: 'day' | 'position' | 'time', time?: string) => {
+    setLocations(prev =>
+      prev.map(loc => {
+        if (loc.id !== locationId) return loc;
+        if (mode === 'day') {
+          const pinned = loc.pinned_day !== null && loc.pinned_day !== undefined;
+          return { ...loc, pinned_day: pinned ? null : loc.day_index, pinned_position: null, pinned_time: null };
+        }
+        if (mode === 'time') {
+          return { ...loc, pinned_day: loc.day_index, pinned_time: loc.pinned_time ? null : time ?? null };
+        }
+        const positionPinned = loc.pinned_position !== null && loc.pinned_position !== undefined;
+        return {
+          ...loc,
+          pinned_day: loc.day_index,
+          pinned_position: positionPinned ? null : position,
+        };
+      })
+    );
+  };
+
+  const handleFetchOpeningHours = async () => {
+    setIsFetchingHours(true);
+    setError(null);
+
+    try {
+      const missing = locations.filter(loc => !loc.opening_hours);
+      const results = await Promise.allSettled(
+        missing.map(loc => fetchOpeningHours(loc.name, loc.address))
+      );
+      const hoursById = new Map<string, OpeningHours>();
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled' && result.value) {
+          hoursById.set(missing[index].id, result.value);
+        } else if (result.status === 'rejected') {
+          console.error('Opening hours lookup error:', result.reason);
+        }
+      });
+
+      setLocations(prev =>
+        prev.map(loc => hoursById.has(loc.id) ? { ...loc, opening_hours: hoursById.get(loc.id) } : loc)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up opening hours');
+    } finally {
+      setIsFetchingHours(false);
+    }
+  };
+
+  // Must-visit places with a chosen day pin the matching stop to that day, and
+  // their votes decide what the optimizer leaves out when a day overflows
+  const locationsForOptimizer = locations.map(loc => {
+    const mustVisit = mustVisitPlaces.find(place => isSameName(place.name, loc.name));
+    if (!mustVisit) return loc;
+    const isPinned = loc.pinned_day !== null && loc.pinned_day !== undefined;
+    return {
+      ...loc,
+      pinned_day: isPinned || mustVisit.preferredDay === null ? loc.pinned_day : mustVisit.preferredDay,
+      priority: mustVisit.score,
+    };
+  });
 
   const handleSave = async () => {
     if (isSaving) return;
@@ -179,11 +638,22 @@ export function ItineraryBuilder({
     setSaveSuccess(false);
 
     try {
+      if (conflicts.length > 0) {
+        throw new Error('Choose which version to keep for the stops changed by someone else before saving');
+      }
+
       // Basic validation
       if (locations.length === 0) {
         throw new Error('Please add at least one location to the itinerary before saving');
       }
 
+      const unresolved = locations.filter(loc => !hasCoordinates(loc));
+      if (unresolved.length > 0) {
+        throw new Error(
+          `Please fix the location of ${unresolved.map(loc => `"${loc.name}"`).join(', ')} before saving`
+        );
+      }
+
       // Validate required fields and day indices
       for (const loc of locations) {
         const issues: string[] = [];
@@ -212,6 +682,21 @@ export function ItineraryBuilder({
         }
       }
 
+      // Stamp every stop with its computed arrival time
+      const arrivalTimes = new Map<string, string>();
+      for (let dayIndex = 0; dayIndex < tripDays; dayIndex++) {
+        const dayLocations = getDayLocations(dayIndex);
+        const { stops } = buildDayTimeline(
+          dayLocations,
+          addDays(startDate, dayIndex),
+          getAvailableSchedule(dayIndex),
+          transportationMode,
+          getNightStay(dayIndex - 1),
+          getDayTimeZone(dayIndex)
+        );
+        dayLocations.forEach((loc, index) => arrivalTimes.set(loc.id, formatTime(stops[index].arrival)));
+      }
+
       // Remove UI-only fields and ensure all required fields are set
       const locationsToSave = locations.map(({ travelTimeToNext, ...location }) => ({
         ...location,
@@ -221,14 +706,14 @@ export function ItineraryBuilder({
         address: location.address?.trim() || location.name.trim(),
         latitude: typeof location.latitude === 'number' ? location.latitude : 0,
         longitude: typeof location.longitude === 'number' ? location.longitude : 0,
-        day_index: location.day_index
+        day_index: location.day_index,
+        arrival_time: arrivalTimes.get(location.id) || location.arrival_time,
       }));
 
       console.log('Saving locations:', locationsToSave);
 
-      await onSave(locationsToSave);
-      
-      // Update local state to match saved version while preserving UI-only fields
+      // Update local state to the version being saved, preserving UI-only
+      // fields, so it matches the saved stops when they come back
       const updatedLocations = locationsToSave.map(savedLoc => {
         const originalLoc = locations.find(loc => loc.id === savedLoc.id);
         return {
@@ -237,9 +722,9 @@ export function ItineraryBuilder({
           travelTimeToNext: originalLoc?.travelTimeToNext,
         };
       });
-      
-      // Update local state with the saved version
       setLocations(updatedLocations);
+
+      await onSave(locationsToSave, daySchedules);
       setSaveSuccess(true);
       
       // Reset save success state after a delay
@@ -261,96 +746,73 @@ export function ItineraryBuilder({
   return (
     <div className="space-y-8">
       {/* Combined Planning Section */}
+      {!readOnly && (
       <div className="bg-white rounded-lg shadow-md p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Plan Your Itinerary</h2>
         <div className="space-y-6">
-          {/* Day Selection and Location Search */}
-          <div className="flex gap-4 items-center">
-            <select
-              value={selectedDay}
-              onChange={(e) => setSelectedDay(e.target.value === 'unknown' ? 'unknown' : Number(e.target.value))}
-              className="block w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="unknown">Any Day</option>
-              {Array.from({ length: tripDays }).map((_, index) => (
-                <option key={index} value={index}>
-                  Day {index + 1}
-                </option>
-              ))}
-            </select>
-            <LocationSearch onLocationSelect={handleAddMustVisitPlace} />
-          </div>
-
-          {/* Must-Visit Places List */}
-          {mustVisitPlaces.length > 0 && (
-            <div className="mt-4">
-              <h3 className="text-lg font-medium text-gray-900 mb-3">Must-Visit Places</h3>
-              <div className="space-y-3">
-                {mustVisitPlaces.map((place, index) => (
-                  <div
-                    key={index}
-                    className="flex items-center gap-3 bg-gray-50 p-3 rounded-lg"
-                  >
-                    <div className="flex-grow">
-                      <p className="font-medium text-gray-900">{place.name}</p>
-                    </div>
-                    <select
-                      value={place.dayIndex}
-                      onChange={(e) => handleDayChange(index, e.target.value === 'unknown' ? 'unknown' : Number(e.target.value))}
-                      className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    >
-                      <option value="unknown">Any Day</option>
-                      {Array.from({ length: tripDays }).map((_, dayIndex) => (
-                        <option key={dayIndex} value={dayIndex}>
-                          Day {dayIndex + 1}
-                        </option>
-                      ))}
-                    </select>
-                    <button
-                      onClick={() => handleRemoveMustVisitPlace(index)}
-                      className="text-gray-400 hover:text-red-600 transition-colors"
-                    >
-                      <X className="h-5 w-5" />
-                    </button>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-
-          <PlacesImport onPlacesImport={(places) => {
-            const newPlaces = places.map(place => ({
-              name: place.name,
-              dayIndex: 'unknown' as const
-            }));
-            setMustVisitPlaces(prev => [...prev, ...newPlaces]);
-          }} />
-
           {/* AI Generation Section */}
-          <div className="mt-6">
+          <div>
             <AiItineraryGenerator
               startPoint={departurePoint.name || departurePoint.address}
-              endPoint={departurePoint.name || departurePoint.address}
+              endPoint={returnPoint.name || returnPoint.address}
               duration={tripDays}
               pace={pace}
-              mustVisitPlaces={mustVisitPlaces.map(place => ({
-                name: place.name,
-                preferredDay: place.dayIndex === 'unknown' ? null : place.dayIndex
-              }))}
+              transportationMode={transportationMode}
+              mustVisitPlaces={mustVisitPlaces}
+              bookedStays={bookedByNight}
               onItineraryGenerated={handleAiItineraryGenerated}
+              onDayGenerated={handleAiDayGenerated}
+            />
+            {geocodingCount > 0 && (
+              <p className="mt-2 text-sm text-gray-500">Finding the generated stops on the map...</p>
+            )}
+          </div>
+
+          {locations.length > 0 && (
+            <ItineraryChat
+              locations={locations}
+              duration={tripDays}
+              startDate={startDate}
+              onApplyEdits={handleApplyEdits}
             />
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleFetchOpeningHours}
+              disabled={isFetchingHours || locations.length === 0}
+              className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <Clock className="h-4 w-4" />
+              {isFetchingHours ? 'Looking up opening hours...' : 'Look up opening hours'}
+            </button>
           </div>
 
           <SmartItineraryOptimizer
-            locations={locations}
+            locations={locationsForOptimizer}
             startDate={startDate}
             endDate={endDate}
             pace={pace}
+            transportationMode={transportationMode}
             departurePoint={departurePoint}
+            returnPoint={returnPoint}
+            bookedStays={bookedByNight}
+            daySchedules={Object.fromEntries(
+              Array.from({ length: tripDays }, (_, index) => [index, getAvailableSchedule(index)])
+            )}
+            timeZones={Array.from({ length: tripDays }, (_, index) => getDayTimeZone(index))}
             onOptimizedItinerary={handleOptimizedItinerary}
+            disabledReason={
+              locations.some(loc => !hasCoordinates(loc))
+                ? 'Fix the stops marked "Location not found" before optimizing.'
+                : undefined
+            }
           />
         </div>
       </div>
+      )}
+
+      <StopConflicts conflicts={conflicts} onResolve={handleResolveConflict} />
 
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
@@ -363,18 +825,35 @@ export function ItineraryBuilder({
         </div>
       )}
 
+      {/* Trip Map */}
+      <TripMap
+        locations={locations}
+        days={tripDays}
+        departurePoint={departurePoint}
+        returnPoint={returnPoint}
+        selectedDay={mapDay}
+        onSelectDay={setMapDay}
+        onLocationClick={handleMapLocationClick}
+      />
+
       {/* Daily Itineraries */}
       <div className="space-y-6">
         {Array.from({ length: tripDays }).map((_, index) => {
-          const dayLocations = locations
-            .filter((loc) => loc.day_index === index)
-            .sort((a, b) => locations.indexOf(a) - locations.indexOf(b));
+          const dayLocations = getDayLocations(index);
+          const tonight = getNightStay(index);
+          const { arriving, departing } = getDayTravel(index);
 
           return (
             <DailyItinerary
               key={index}
               date={addDays(startDate, index)}
               locations={dayLocations}
+              schedule={getDaySchedule(index)}
+              availableSchedule={getAvailableSchedule(index)}
+              arriving={arriving}
+              departing={departing}
+              timeZone={getDayTimeZone(index)}
+              onScheduleChange={(schedule) => setDaySchedules(prev => ({ ...prev, [index]: schedule }))}
               onLocationsChange={(newLocations) => {
                 setLocations(prev => {
                   const otherDays = prev.filter(loc => loc.day_index !== index);
@@ -393,12 +872,32 @@ export function ItineraryBuilder({
                 setLocations(prev => prev.filter(loc => loc.id !== locationId));
               }}
               onDropLocation={handleDropLocation}
+              onTogglePin={handleTogglePin}
+              transportationMode={transportationMode}
+              onTransportModeChange={handleTransportModeChange}
+              color={getDayColor(index)}
+              isSelected={mapDay === index}
+              onSelect={() => setMapDay(mapDay === index ? null : index)}
+              highlightedLocationId={highlightedLocationId}
+              onResolveLocation={handleResolveLocation}
+              onRegenerateDay={() => handleRegenerateDay(index)}
+              onSuggestAlternative={handleSuggestAlternative}
+              isRegenerating={regenerating !== null}
+              regeneratingTarget={regenerating?.dayIndex === index ? regenerating.locationId ?? 'day' : null}
+              startFrom={getNightStay(index - 1)}
+              returnTo={tonight && !dayLocations.some(loc => loc.id === tonight.id) ? tonight : undefined}
+              finishAt={index === tripDays - 1 ? { ...returnPoint, name: returnPoint.name || returnPoint.address } : undefined}
+              maxNights={tripDays - 1 - index}
+              onLocationUpdate={handleLocationUpdate}
+              viewers={viewers.filter(viewer => viewer.dayIndex === index).map(viewer => viewer.email)}
+              readOnly={readOnly}
             />
           );
         })}
       </div>
 
       {/* Save Button */}
+      {!readOnly && (
       <div className="flex justify-end">
         <button
           onClick={handleSave}
@@ -422,6 +921,7 @@ export function ItineraryBuilder({
           )}
         </button>
       </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Loader2, X, Check, AlertTriangle, Plus, Minus, ArrowRight, Clock } from 'lucide-react';
+import { proposeItineraryEdits } from '../lib/google-ai';
+import { EditableLocation, ItineraryEdit, describeEdit, toEditableStops } from '../lib/itinerary-edits';
+import { ChatTurn } from '../lib/itinerary-model';
+
+interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  // Described against the itinerary the edits were proposed for, so they
+  // still read correctly once applied
+  changes?: { edit: ItineraryEdit; title: string; detail: string }[];
+  status?: 'pending' | 'applied' | 'discarded';
+}
+
+interface ItineraryChatProps {
+  locations: EditableLocation[];
+  duration: number;
+  startDate: Date;
+  onApplyEdits: (edits: ItineraryEdit[]) => Promise<void>;
+}
+
+const EDIT_STYLES: Record<ItineraryEdit['op'], { icon: typeof Plus; className: string }> = {
+  add: { icon: Plus, className: 'border-green-200 bg-green-50 text-green-800' },
+  remove: { icon: Minus, className: 'border-red-200 bg-red-50 text-red-800' },
+  move: { icon: ArrowRight, className: 'border-blue-200 bg-blue-50 text-blue-800' },
+  retime: { icon: Clock, className: 'border-amber-200 bg-amber-50 text-amber-800' },
+};
+
+export function ItineraryChat({ locations, duration, startDate, onApplyEdits }: ItineraryChatProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isThinking, setIsThinking] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Indices of the pending proposal's edits the user has unticked
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const pendingIndex = messages.findIndex(message => message.status === 'pending');
+  const pending = pendingIndex === -1 ? null : messages[pendingIndex];
+
+  const setPendingStatus = (status: 'applied' | 'discarded') => {
+    setMessages(prev => prev.map((message, index) => index === pendingIndex ? { ...message, status } : message));
+    setExcluded(new Set());
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const instruction = input.trim();
+    if (!instruction || isThinking) return;
+
+    // A new request replaces any proposal that wasn't acted on
+    if (pending) setPendingStatus('discarded');
+    const history: ChatTurn[] = messages.map(({ role, text }) => ({ role, text }));
+    setMessages(prev => [...prev, { role: 'user', text: instruction }]);
+    setInput('');
+    setError(null);
+    setIsThinking(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const proposal = await proposeItineraryEdits(
+        instruction,
+        toEditableStops(locations),
+        locations.map(location => location.id),
+        duration,
+        startDate,
+        { signal: controller.signal, history }
+      );
+      setMessages(prev => [
+        ...prev,
+        {
+          role: 'model',
+          text: proposal.reply,
+          changes: proposal.edits.map(edit => ({ edit, ...describeEdit(edit, locations) })),
+          status: proposal.edits.length > 0 ? 'pending' : undefined,
+        },
+      ]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Failed to plan the changes');
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsThinking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!pending?.changes) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApplyEdits(pending.changes.filter((_, index) => !excluded.has(index)).map(change => change.edit));
+      setPendingStatus('applied');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply the changes');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const toggleEdit = (index: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200">
+        <MessageSquare className="h-5 w-5 text-indigo-600" />
+        <h3 className="font-medium text-gray-900">Edit with AI</h3>
+      </div>
+
+      <div className="p-4 space-y-3 max-h-96 overflow-y-auto">
+        {messages.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Describe a change, like "move the Louvre to Tuesday morning", "add a coffee break after lunch on day 2"
+            or "make day 3 lighter". You'll see the changes before anything is applied.
+          </p>
+        )}
+
+        {messages.map((message, messageIndex) => (
+          <div key={messageIndex} className={message.role === 'user' ? 'flex justify-end' : 'space-y-2'}>
+            <div
+              className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              {message.text}
+            </div>
+
+            {message.changes && message.changes.length > 0 && (
+              <div className="space-y-2">
+                {message.changes.map(({ edit, title, detail }, editIndex) => {
+                  const { icon: Icon, className } = EDIT_STYLES[edit.op];
+                  const isPending = message.status === 'pending';
+                  const isIncluded = !isPending || !excluded.has(editIndex);
+                  return (
+                    <label
+                      key={editIndex}
+                      className={`flex items-start gap-2 border rounded-md px-3 py-2 text-sm ${className} ${
+                        isIncluded ? '' : 'opacity-50'
+                      } ${isPending ? 'cursor-pointer' : ''}`}
+                    >
+                      {isPending && (
+                        <input
+                          type="checkbox"
+                          checked={isIncluded}
+                          onChange={() => toggleEdit(editIndex)}
+                          className="mt-0.5"
+                        />
+                      )}
+                      <Icon className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                      <span>
+                        <span className="font-medium">{title}</span>
+                        {detail && <span className="block text-xs opacity-80">{detail}</span>}
+                      </span>
+                    </label>
+                  );
+                })}
+
+                {message.status === 'pending' ? (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleApply}
+                      disabled={isApplying || excluded.size === message.changes.length}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      {isApplying ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                      Apply {message.changes.length - excluded.size} change{message.changes.length - excluded.size === 1 ? '' : 's'}
+                    </button>
+                    <button
+                      onClick={() => setPendingStatus('discarded')}
+                      disabled={isApplying}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <X className="h-4 w-4" />
+                      Discard
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">{message.status === 'applied' ? 'Applied' : 'Discarded'}</p>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {isThinking && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Working out the changes...</span>
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className="text-gray-400 hover:text-gray-600"
+              title="Cancel"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSend} className="flex gap-2 p-3 border-t border-gray-200">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="What would you like to change?"
+          disabled={isThinking}
+          className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={isThinking || !input.trim()}
+          className="flex items-center gap-1 px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
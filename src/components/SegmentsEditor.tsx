@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { Plane, Train, Bus, Plus, Trash2, Check, X, AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { SegmentMode, TripSegment } from '../types/trip';
+import { SEGMENT_MODE_LABELS, formatSegment, validateSegment } from '../lib/segments';
+import { TimeZoneSelect } from './TimeZoneSelect';
+
+interface SegmentsEditorProps {
+  segments: TripSegment[];
+  onChange: (segments: TripSegment[]) => void;
+}
+
+const SEGMENT_MODE_ICONS: Record<SegmentMode, typeof Plane> = {
+  flight: Plane,
+  train: Train,
+  bus: Bus,
+};
+
+const toInputValue = (date: Date) => isNaN(date.getTime()) ? '' : format(date, "yyyy-MM-dd'T'HH:mm");
+
+const formatLocalTime = (date: Date, zone: string | null) =>
+  `${format(date, 'EEE, MMM d HH:mm')}${zone ? ` (${zone.replace(/_/g, ' ')})` : ''}`;
+
+export function SegmentsEditor({ segments, onChange }: SegmentsEditorProps) {
+  const [draft, setDraft] = useState<TripSegment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    setDraft({
+      id: crypto.randomUUID(),
+      mode: 'flight',
+      carrier: '',
+      number: '',
+      departureStation: '',
+      arrivalStation: '',
+      departureTime: new Date(NaN),
+      arrivalTime: new Date(NaN),
+      departureTimeZone: null,
+      arrivalTimeZone: null,
+    });
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const problem = validateSegment(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange(
+      [...segments.filter(segment => segment.id !== draft.id), draft]
+        .sort((a, b) => a.departureTime.getTime() - b.departureTime.getTime())
+    );
+    setDraft(null);
+    setError(null);
+  };
+
+  const inputClass =
+    'block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="space-y-3">
+      {segments.map(segment => {
+        const Icon = SEGMENT_MODE_ICONS[segment.mode];
+        return (
+          <div key={segment.id} className="flex items-start gap-3 bg-gray-50 p-3 rounded-lg">
+            <Icon className="h-5 w-5 text-gray-500 mt-0.5" />
+            <div className="flex-grow text-sm">
+              <p className="font-medium text-gray-900">
+                {formatSegment(segment)} · {segment.departureStation} → {segment.arrivalStation}
+              </p>
+              <p className="text-gray-600">
+                {formatLocalTime(segment.departureTime, segment.departureTimeZone)} –{' '}
+                {formatLocalTime(segment.arrivalTime, segment.arrivalTimeZone)}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(segments.filter(other => other.id !== segment.id))}
+              className="text-gray-400 hover:text-red-600 transition-colors"
+              title="Remove"
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          </div>
+        );
+      })}
+
+      {draft ? (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={draft.mode}
+                onChange={(e) => setDraft({ ...draft, mode: e.target.value as SegmentMode })}
+                className={inputClass}
+              >
+                {(Object.keys(SEGMENT_MODE_LABELS) as SegmentMode[]).map(mode => (
+                  <option key={mode} value={mode}>{SEGMENT_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Carrier</label>
+              <input
+                type="text"
+                value={draft.carrier}
+                onChange={(e) => setDraft({ ...draft, carrier: e.target.value })}
+                placeholder="Air France"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Number</label>
+              <input
+                type="text"
+                value={draft.number}
+                onChange={(e) => setDraft({ ...draft, number: e.target.value })}
+                placeholder="AF1234"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="text"
+                value={draft.departureStation}
+                onChange={(e) => setDraft({ ...draft, departureStation: e.target.value })}
+                placeholder="JFK"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="text"
+                value={draft.arrivalStation}
+                onChange={(e) => setDraft({ ...draft, arrivalStation: e.target.value })}
+                placeholder="CDG"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Departs (local time)</label>
+              <input
+                type="datetime-local"
+                value={toInputValue(draft.departureTime)}
+                onChange={(e) => setDraft({ ...draft, departureTime: parseISO(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Arrives (local time)</label>
+              <input
+                type="datetime-local"
+                value={toInputValue(draft.arrivalTime)}
+                onChange={(e) => setDraft({ ...draft, arrivalTime: parseISO(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Departure time zone</label>
+              <TimeZoneSelect
+                value={draft.departureTimeZone}
+                onChange={(zone) => setDraft({ ...draft, departureTimeZone: zone })}
+                emptyLabel="Same as the trip"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Arrival time zone</label>
+              <TimeZoneSelect
+                value={draft.arrivalTimeZone}
+                onChange={(zone) => setDraft({ ...draft, arrivalTimeZone: zone })}
+                emptyLabel="Same as the trip"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              <X className="h-4 w-4" />
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Check className="h-4 w-4" />
+              Add
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="h-4 w-4" />
+          Add flight, train or bus
+        </button>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
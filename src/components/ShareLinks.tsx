@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Link2, Copy, Check, Ban, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { TripShareLink } from '../types/trip';
+import { SHARE_LINK_EXPIRY_OPTIONS, getShareUrl, isShareLinkActive } from '../lib/share-links';
+
+interface ShareLinksProps {
+  links: TripShareLink[];
+  onCreate: (expiresInDays: number | null) => Promise<void>;
+  onRevoke: (linkId: string) => Promise<void>;
+}
+
+export function ShareLinks({ links, onCreate, onRevoke }: ShareLinksProps) {
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeLinks = links.filter(link => isShareLinkActive(link));
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      await onCreate(SHARE_LINK_EXPIRY_OPTIONS[expiryIndex].days);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: TripShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      setError('Could not copy the link. Select it and copy it instead.');
+    }
+  };
+
+  const handleRevoke = async (link: TripShareLink) => {
+    if (!confirm('Turn off this link? Anyone using it will no longer see the trip.')) {
+      return;
+    }
+    setError(null);
+    try {
+      await onRevoke(link.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off the link');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center gap-2 mb-1">
+        <Link2 className="h-5 w-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Share Links</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Anyone with a link can see this itinerary without an account, but can't change it.
+      </p>
+
+      <div className="space-y-2">
+        {activeLinks.map(link => (
+          <div key={link.id} className="flex items-center gap-3 bg-gray-50 p-3 rounded-lg">
+            <div className="flex-grow min-w-0 text-sm">
+              <p className="text-gray-900 truncate">{getShareUrl(link.token)}</p>
+              <p className="text-gray-500">
+                Created {format(link.createdAt, 'MMM d')}
+                {' · '}
+                {link.expiresAt ? `Expires ${format(link.expiresAt, 'MMM d, HH:mm')}` : 'Never expires'}
+              </p>
+            </div>
+            <button
+              onClick={() => handleCopy(link)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Copy link"
+            >
+              {copiedId === link.id ? <Check className="h-5 w-5 text-green-600" /> : <Copy className="h-5 w-5" />}
+            </button>
+            <button
+              onClick={() => handleRevoke(link)}
+              className="text-gray-400 hover:text-red-600 transition-colors"
+              title="Turn off link"
+            >
+              <Ban className="h-5 w-5" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 mt-4">
+        <select
+          value={expiryIndex}
+          onChange={(e) => setExpiryIndex(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {SHARE_LINK_EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="flex items-center justify-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Link2 className="h-4 w-4" />
+          {isCreating ? 'Creating...' : 'Create link'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { BedDouble, Pencil, Trash2, Plus, X, Check, AlertTriangle, MapPin } from 'lucide-react';
+import { addDays, format, parseISO } from 'date-fns';
+import { TripStay } from '../types/trip';
+import { getStayNights, validateStay } from '../lib/stays';
+import { LocationSearch } from './LocationSearch';
+import { TimeZoneSelect } from './TimeZoneSelect';
+
+interface StaysEditorProps {
+  stays: TripStay[];
+  startDate: Date;
+  endDate: Date;
+  onSave: (stay: TripStay) => Promise<void>;
+  onDelete: (stayId: string) => Promise<void>;
+  readOnly?: boolean;
+}
+
+export function StaysEditor({ stays, startDate, endDate, onSave, onDelete, readOnly = false }: StaysEditorProps) {
+  const [draft, setDraft] = useState<TripStay | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedStays = [...stays].sort((a, b) => a.checkIn.getTime() - b.checkIn.getTime());
+
+  const handleAdd = () => {
+    // Start the new stay where the last one ends
+    const lastCheckOut = sortedStays.length > 0 ? sortedStays[sortedStays.length - 1].checkOut : startDate;
+    const checkIn = lastCheckOut < endDate ? lastCheckOut : startDate;
+    setDraft({
+      id: crypto.randomUUID(),
+      name: '',
+      address: '',
+      latitude: 0,
+      longitude: 0,
+      checkIn,
+      checkOut: endDate > checkIn ? endDate : addDays(checkIn, 1),
+      confirmationNumber: null,
+      timeZone: null,
+    });
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const problem = validateStay(draft, stays);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save stay');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (stayId: string) => {
+    setError(null);
+    try {
+      await onDelete(stayId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete stay');
+    }
+  };
+
+  const outsideTrip = (stay: TripStay) => stay.checkIn < startDate || stay.checkOut > addDays(endDate, 1);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <BedDouble className="h-5 w-5 text-blue-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Where You're Staying</h2>
+        </div>
+        {!draft && !readOnly && (
+          <button
+            onClick={handleAdd}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4" />
+            Add stay
+          </button>
+        )}
+      </div>
+
+      {sortedStays.length === 0 && !draft && (
+        <p className="text-sm text-gray-500">
+          {readOnly
+            ? 'No stays have been booked for this trip yet.'
+            : "Add your booked hotels so each day starts and ends where you're staying. Nights without a stay use the hotels in your itinerary."}
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {sortedStays.map(stay => (
+          <div key={stay.id} className="flex items-start gap-3 bg-gray-50 p-3 rounded-lg">
+            <div className="flex-grow">
+              <p className="font-medium text-gray-900">{stay.name}</p>
+              <div className="flex items-center text-sm text-gray-600 mt-1">
+                <MapPin className="h-4 w-4 mr-1" />
+                <span>{stay.address}</span>
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                {format(stay.checkIn, 'EEE, MMM d')} – {format(stay.checkOut, 'EEE, MMM d')}
+                {' · '}{getStayNights(stay)} night{getStayNights(stay) === 1 ? '' : 's'}
+                {stay.confirmationNumber && ` · Confirmation ${stay.confirmationNumber}`}
+                {stay.timeZone && ` · ${stay.timeZone.replace(/_/g, ' ')}`}
+              </p>
+              {outsideTrip(stay) && (
+                <p className="flex items-center gap-1 text-sm text-amber-700 mt-1">
+                  <AlertTriangle className="h-4 w-4" />
+                  Some of these nights fall outside the trip dates
+                </p>
+              )}
+            </div>
+            {!readOnly && (
+              <>
+                <button
+                  onClick={() => {
+                    setDraft(stay);
+                    setError(null);
+                  }}
+                  className="text-gray-400 hover:text-gray-600 transition-colors"
+                  title="Edit stay"
+                >
+                  <Pencil className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(stay.id)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                  title="Delete stay"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="mt-4 border border-gray-200 rounded-lg p-4 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hotel or address</label>
+            {draft.name && (
+              <p className="text-sm text-gray-900 mb-2">
+                {draft.name}
+                {draft.address && draft.address !== draft.name && <span className="text-gray-500"> · {draft.address}</span>}
+              </p>
+            )}
+            <LocationSearch onLocationSelect={(location) => setDraft({ ...draft, ...location })} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Check-in</label>
+              <input
+                type="date"
+                value={format(draft.checkIn, 'yyyy-MM-dd')}
+                onChange={(e) => e.target.value && setDraft({ ...draft, checkIn: parseISO(e.target.value) })}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Check-out</label>
+              <input
+                type="date"
+                value={format(draft.checkOut, 'yyyy-MM-dd')}
+                onChange={(e) => e.target.value && setDraft({ ...draft, checkOut: parseISO(e.target.value) })}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confirmation number</label>
+              <input
+                type="text"
+                value={draft.confirmationNumber || ''}
+                onChange={(e) => setDraft({ ...draft, confirmationNumber: e.target.value })}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+            <TimeZoneSelect
+              value={draft.timeZone}
+              onChange={(zone) => setDraft({ ...draft, timeZone: zone })}
+              emptyLabel="Same as the trip"
+              className="block w-full sm:w-1/3 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              disabled={isSaving}
+              className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <X className="h-4 w-4" />
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Check className="h-4 w-4" />
+              {isSaving ? 'Saving...' : 'Save stay'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
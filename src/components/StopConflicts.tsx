@@ -0,0 +1,54 @@
+import { AlertTriangle } from 'lucide-react';
+import { StopConflict, SyncedStop } from '../lib/collaboration';
+
+type ConflictStop = SyncedStop & { name: string; day_index: number; arrival_time?: string };
+
+interface StopConflictsProps<T extends ConflictStop> {
+  conflicts: StopConflict<T>[];
+  onResolve: (conflict: StopConflict<T>, keep: 'mine' | 'theirs') => void;
+}
+
+const describeStop = (stop: ConflictStop | null) =>
+  stop
+    ? `Day ${stop.day_index + 1}${stop.arrival_time ? ` at ${stop.arrival_time.slice(0, 5)}` : ''}`
+    : 'Removed';
+
+export function StopConflicts<T extends ConflictStop>({ conflicts, onResolve }: StopConflictsProps<T>) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <AlertTriangle className="h-5 w-5 text-amber-600" />
+        <h3 className="font-medium text-amber-900">Changed by someone else while you were editing</h3>
+      </div>
+      <p className="text-sm text-amber-800 mb-3">Choose which version of each stop to keep before saving.</p>
+      <div className="space-y-2">
+        {conflicts.map(conflict => (
+          <div key={conflict.id} className="flex flex-col sm:flex-row sm:items-center gap-2 bg-white p-3 rounded-md">
+            <div className="flex-grow text-sm">
+              <p className="font-medium text-gray-900">{(conflict.mine ?? conflict.theirs)?.name}</p>
+              <p className="text-gray-600">
+                Yours: {describeStop(conflict.mine)} · Theirs: {describeStop(conflict.theirs)}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onResolve(conflict, 'mine')}
+                className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                Keep mine
+              </button>
+              <button
+                onClick={() => onResolve(conflict, 'theirs')}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Use theirs
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
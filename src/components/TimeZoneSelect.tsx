@@ -0,0 +1,31 @@
+import { getTimeZones } from '../lib/time-zone';
+
+interface TimeZoneSelectProps {
+  value: string | null;
+  onChange: (zone: string | null) => void;
+  emptyLabel?: string;  // Offers a "no zone of its own" option with this label
+  className?: string;
+  id?: string;
+  disabled?: boolean;
+}
+
+export function TimeZoneSelect({ value, onChange, emptyLabel, className, id, disabled }: TimeZoneSelectProps) {
+  const zones = getTimeZones();
+  // Keep a saved zone selectable even if this browser doesn't list it
+  const options = value && !zones.includes(value) ? [value, ...zones] : zones;
+
+  return (
+    <select
+      id={id}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className={className}
+      disabled={disabled}
+    >
+      {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+      {options.map(zone => (
+        <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { GoogleMap, Marker, Polyline } from '@react-google-maps/api';
+import { getDayColor } from '../lib/day-colors';
+import { isHotelStop } from '../lib/itinerary-optimizer';
+import { LocationKind } from '../types/trip';
+
+interface Location {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  day_index: number;
+  kind?: LocationKind;
+}
+
+interface TripMapProps {
+  locations: Location[];  // In itinerary order
+  days: number;
+  departurePoint: {
+    latitude: number;
+    longitude: number;
+  };
+  returnPoint?: {
+    latitude: number;
+    longitude: number;
+    name: string;
+  };
+  selectedDay: number | null;
+  onSelectDay: (day: number | null) => void;
+  onLocationClick: (locationId: string) => void;
+}
+
+const hasCoordinates = (location: { latitude: number; longitude: number }) =>
+  Boolean(location.latitude || location.longitude);
+
+export function TripMap({
+  locations,
+  days,
+  departurePoint,
+  returnPoint,
+  selectedDay,
+  onSelectDay,
+  onLocationClick,
+}: TripMapProps) {
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+
+  const dayRoutes = Array.from({ length: days }, (_, day) =>
+    locations.filter(loc => loc.day_index === day && hasCoordinates(loc))
+  );
+  // The last day's route runs on to the return point
+  const finish = returnPoint && hasCoordinates(returnPoint) ? returnPoint : null;
+  const routePoints = (day: number): { latitude: number; longitude: number }[] =>
+    finish && day === days - 1 ? [...dayRoutes[day], finish] : dayRoutes[day] || [];
+
+  // Fit the selected day, or the whole trip when none is selected. Keyed on
+  // the coordinates so reordering stops doesn't move the map.
+  const visible = selectedDay === null ? dayRoutes.flatMap((_, day) => routePoints(day)) : routePoints(selectedDay);
+  const boundsKey = visible
+    .map(loc => `${loc.latitude},${loc.longitude}`)
+    .sort()
+    .join('|');
+  useEffect(() => {
+    if (!map) return;
+    const points = boundsKey
+      ? boundsKey.split('|').map(key => key.split(',').map(Number))
+      : hasCoordinates(departurePoint) ? [[departurePoint.latitude, departurePoint.longitude]] : [];
+    if (points.length === 0) return;
+
+    if (points.length === 1) {
+      map.setCenter({ lat: points[0][0], lng: points[0][1] });
+      map.setZoom(14);
+      return;
+    }
+    const bounds = new google.maps.LatLngBounds();
+    points.forEach(([lat, lng]) => bounds.extend({ lat, lng }));
+    map.fitBounds(bounds, 48);
+  }, [map, boundsKey, departurePoint]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          onClick={() => onSelectDay(null)}
+          className={`px-3 py-1 rounded-full text-sm border ${
+            selectedDay === null ? 'bg-gray-900 text-white border-gray-900' : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          All days
+        </button>
+        {dayRoutes.map((_, day) => (
+          <button
+            key={day}
+            onClick={() => onSelectDay(selectedDay === day ? null : day)}
+            className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm border ${
+              selectedDay === day ? 'bg-gray-900 text-white border-gray-900' : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: getDayColor(day) }} />
+            Day {day + 1}
+          </button>
+        ))}
+      </div>
+
+      <div className="h-96 w-full rounded-lg overflow-hidden">
+        <GoogleMap
+          mapContainerStyle={{ width: '100%', height: '100%' }}
+          center={{ lat: departurePoint.latitude || 48.8566, lng: departurePoint.longitude || 2.3522 }}
+          zoom={12}
+          onLoad={setMap}
+          onUnmount={() => setMap(null)}
+          options={{
+            fullscreenControl: true,
+            streetViewControl: false,
+            mapTypeControl: false,
+            zoomControl: true,
+          }}
+        >
+          {dayRoutes.map((route, day) => {
+            const dimmed = selectedDay !== null && selectedDay !== day;
+            const color = getDayColor(day);
+            let stopNumber = 0;
+
+            return [
+              <Polyline
+                key={`route-${day}`}
+                path={routePoints(day).map(loc => ({ lat: loc.latitude, lng: loc.longitude }))}
+                options={{
+                  strokeColor: color,
+                  strokeOpacity: dimmed ? 0.2 : 0.8,
+                  strokeWeight: selectedDay === day ? 5 : 3,
+                  zIndex: dimmed ? 1 : 2,
+                }}
+              />,
+              ...route.map(location => {
+                const hotel = isHotelStop(location);
+                const label = hotel ? 'H' : String(++stopNumber);
+                return (
+                  <Marker
+                    key={location.id}
+                    position={{ lat: location.latitude, lng: location.longitude }}
+                    title={`Day ${day + 1}: ${location.name}`}
+                    onClick={() => onLocationClick(location.id)}
+                    label={{ text: label, color: '#ffffff', fontSize: '12px', fontWeight: 'bold' }}
+                    opacity={dimmed ? 0.4 : 1}
+                    zIndex={dimmed ? 1 : 10}
+                    icon={{
+                      path: google.maps.SymbolPath.CIRCLE,
+                      scale: 12,
+                      fillColor: color,
+                      fillOpacity: 1,
+                      strokeColor: '#ffffff',
+                      strokeWeight: 2,
+                    }}
+                  />
+                );
+              }),
+            ];
+          })}
+          {finish && (
+            <Marker
+              position={{ lat: finish.latitude, lng: finish.longitude }}
+              title={`Trip ends at ${finish.name}`}
+              label={{ text: 'E', color: '#ffffff', fontSize: '12px', fontWeight: 'bold' }}
+              opacity={selectedDay !== null && selectedDay !== days - 1 ? 0.4 : 1}
+              zIndex={5}
+              icon={{
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: 12,
+                fillColor: '#111827',
+                fillOpacity: 1,
+                strokeColor: '#ffffff',
+                strokeWeight: 2,
+              }}
+            />
+          )}
+        </GoogleMap>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Users, UserPlus, Trash2, AlertTriangle, Clock } from 'lucide-react';
+import { TripMember, TripRole } from '../types/trip';
+import { ROLE_LABELS, validateInvite } from '../lib/members';
+
+interface TripMembersProps {
+  members: TripMember[];
+  currentUserId: string;
+  creatorId: string;
+  canManage: boolean;  // Owners invite, change roles and remove people
+  onInvite: (email: string, role: TripRole) => Promise<void>;
+  onRoleChange: (memberId: string, role: TripRole) => Promise<void>;
+  onRemove: (memberId: string) => Promise<void>;
+  onlineUserIds?: string[];  // Members with the trip open right now
+}
+
+export function TripMembers({
+  members,
+  currentUserId,
+  creatorId,
+  canManage,
+  onInvite,
+  onRoleChange,
+  onRemove,
+  onlineUserIds = [],
+}: TripMembersProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<TripRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateInvite(email, members);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsInviting(true);
+    setError(null);
+    try {
+      await onInvite(email.trim().toLowerCase(), role);
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, newRole: TripRole) => {
+    setError(null);
+    try {
+      await onRoleChange(memberId, newRole);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change the role');
+    }
+  };
+
+  const handleRemove = async (member: TripMember) => {
+    const leaving = member.userId === currentUserId;
+    if (!confirm(leaving ? 'Leave this trip? You will lose access to it.' : `Remove ${member.email} from this trip?`)) {
+      return;
+    }
+    setError(null);
+    try {
+      await onRemove(member.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove the member');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <Users className="h-5 w-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Travelling Together</h2>
+      </div>
+
+      <div className="space-y-2">
+        {members.map(member => {
+          const isCreator = member.userId === creatorId;
+          const isSelf = member.userId === currentUserId;
+          return (
+            <div key={member.id} className="flex items-center gap-3 bg-gray-50 p-3 rounded-lg">
+              <div className="flex-grow text-sm">
+                <p className="flex items-center gap-2 text-gray-900">
+                  {member.userId && onlineUserIds.includes(member.userId) && (
+                    <span className="h-2 w-2 rounded-full bg-green-500" title="Viewing the trip now" />
+                  )}
+                  {member.email}
+                  {isSelf && <span className="text-gray-500"> (you)</span>}
+                </p>
+                {!member.userId && (
+                  <p className="flex items-center gap-1 text-gray-500">
+                    <Clock className="h-3 w-3" />
+                    Invited, will join when they sign up
+                  </p>
+                )}
+              </div>
+              {canManage && !isCreator ? (
+                <select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member.id, e.target.value as TripRole)}
+                  className="text-sm border border-gray-300 rounded-md px-2 py-1"
+                >
+                  {(Object.keys(ROLE_LABELS) as TripRole[]).map(option => (
+                    <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-sm text-gray-600">{ROLE_LABELS[member.role]}</span>
+              )}
+              {!isCreator && (canManage || isSelf) && (
+                <button
+                  onClick={() => handleRemove(member)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                  title={isSelf ? 'Leave trip' : 'Remove from trip'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2 mt-4">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="friend@example.com"
+            className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as TripRole)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {(Object.keys(ROLE_LABELS) as TripRole[]).map(option => (
+              <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={isInviting || !email.trim()}
+            className="flex items-center justify-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <UserPlus className="h-4 w-4" />
+            {isInviting ? 'Inviting...' : 'Invite'}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { LocationPicker } from './LocationPicker';
+
+interface Location {
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface UnresolvedLocationProps {
+  location: Location;
+  onResolve: (location: Location) => void;
+}
+
+// Shown on stops we couldn't geocode; lets the user pick the place by hand
+export function UnresolvedLocation({ location, onResolve }: UnresolvedLocationProps) {
+  const [isFixing, setIsFixing] = useState(false);
+  const [draft, setDraft] = useState<Location>({ ...location, latitude: 0, longitude: 0 });
+
+  const hasPick = Boolean(draft.latitude || draft.longitude);
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-md px-3 py-2 text-sm text-amber-700">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>Location not found. It won't be optimized or saved until you pick it.</span>
+        </div>
+        {!isFixing && (
+          <button
+            onClick={() => setIsFixing(true)}
+            className="font-medium text-amber-800 hover:text-amber-900 whitespace-nowrap"
+          >
+            Fix location
+          </button>
+        )}
+      </div>
+
+      {isFixing && (
+        <div className="mt-3 space-y-3">
+          <LocationPicker
+            label={`Where is ${location.name}?`}
+            location={draft}
+            onChange={setDraft}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsFixing(false)}
+              className="px-3 py-1 text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onResolve(draft)}
+              disabled={!hasPick}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Use this location
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { History, RotateCcw, Plus, Minus, ArrowRight, Clock, AlertTriangle } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import { DayDiff, TripVersion, diffVersions } from '../lib/versions';
+
+interface VersionHistoryProps {
+  versions: TripVersion[];  // Newest first
+  startDate: Date;
+  canRestore: boolean;
+  onRestore: (version: TripVersion) => Promise<void>;
+}
+
+type ChangeKind = 'added' | 'removed' | 'moved' | 'changed';
+
+const CHANGE_STYLES: Record<ChangeKind, { icon: typeof Plus; className: string }> = {
+  added: { icon: Plus, className: 'text-green-700' },
+  removed: { icon: Minus, className: 'text-red-700' },
+  moved: { icon: ArrowRight, className: 'text-blue-700' },
+  changed: { icon: Clock, className: 'text-amber-700' },
+};
+
+const formatArrival = (time?: string) => time ? time.slice(0, 5) : 'no time';
+
+function describeDay(day: DayDiff): { kind: ChangeKind; text: string }[] {
+  return [
+    ...day.added.map(stop => ({ kind: 'added' as const, text: `Added ${stop.name}` })),
+    ...day.removed.map(stop => ({ kind: 'removed' as const, text: `Removed ${stop.name}` })),
+    ...day.movedIn.map(({ stop, day: from }) => ({ kind: 'moved' as const, text: `${stop.name} moved here from Day ${from + 1}` })),
+    ...day.movedOut.map(({ stop, day: to }) => ({ kind: 'moved' as const, text: `${stop.name} moved to Day ${to + 1}` })),
+    ...day.changed.map(({ before, after }) => ({
+      kind: 'changed' as const,
+      text: formatArrival(before.arrival_time) !== formatArrival(after.arrival_time)
+        ? `${after.name}: ${formatArrival(before.arrival_time)} → ${formatArrival(after.arrival_time)}`
+        : `${after.name}: details changed`,
+    })),
+  ];
+}
+
+const describeVersion = (version: TripVersion) =>
+  `${format(version.createdAt, 'MMM d, HH:mm')} · ${version.authorEmail || 'Someone'}`;
+
+export function VersionHistory({ versions, startDate, canRestore, onRestore }: VersionHistoryProps) {
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Until something else is picked, compare the latest save with the one before it
+  const toVersion = versions.find(version => version.id === toId) ?? versions[0];
+  const fromVersion = versions.find(version => version.id === fromId) ?? versions[1] ?? versions[0];
+  const diff = fromVersion && toVersion ? diffVersions(fromVersion.locations, toVersion.locations) : [];
+
+  const handleRestore = async (version: TripVersion) => {
+    if (!confirm(
+      `Restore the itinerary saved ${describeVersion(version)}? It replaces the current plan, stays and ` +
+      'travel segments, including unsaved changes. The current plan stays in the history.'
+    )) {
+      return;
+    }
+
+    setRestoringId(version.id);
+    setError(null);
+    try {
+      await onRestore(version);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const versionSelect = (value: TripVersion | undefined, onChange: (id: string) => void) => (
+    <select
+      value={value?.id}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+    >
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>{describeVersion(version)}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center gap-2 mb-1">
+        <History className="h-5 w-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Version History</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Every save is kept here, so you can see what changed and go back to an earlier plan.
+      </p>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved versions yet. One is added each time the itinerary is saved.</p>
+      ) : (
+        <>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {versions.map((version, index) => (
+              <div key={version.id} className="flex items-center gap-3 bg-gray-50 p-3 rounded-lg">
+                <div className="flex-grow min-w-0 text-sm">
+                  <p className="text-gray-900 truncate">
+                    {describeVersion(version)}
+                    {index === 0 && <span className="ml-2 text-xs text-green-700">Latest</span>}
+                  </p>
+                  <p className="text-gray-500">
+                    {version.locations.length} stops · {version.stays.length} stays
+                    {version.note && ` · ${version.note}`}
+                  </p>
+                </div>
+                {canRestore && index > 0 && (
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={restoringId !== null}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    title="Restore this version"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {versions.length > 1 && (
+            <div className="mt-6">
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 mb-3">
+                <span>Compare</span>
+                {versionSelect(fromVersion, setFromId)}
+                <span>with</span>
+                {versionSelect(toVersion, setToId)}
+              </div>
+
+              {diff.length === 0 ? (
+                <p className="text-sm text-gray-500">These versions have the same stops.</p>
+              ) : (
+                <div className="space-y-3">
+                  {diff.map(day => (
+                    <div key={day.dayIndex} className="border border-gray-200 rounded-md px-3 py-2">
+                      <p className="text-sm font-medium text-gray-900 mb-1">
+                        Day {day.dayIndex + 1} · {format(addDays(startDate, day.dayIndex), 'EEE, MMM d')}
+                      </p>
+                      {describeDay(day).map((change, changeIndex) => {
+                        const { icon: Icon, className } = CHANGE_STYLES[change.kind];
+                        return (
+                          <p key={changeIndex} className={`flex items-center gap-2 text-sm ${className}`}>
+                            <Icon className="h-3.5 w-3.5 flex-shrink-0" />
+                            {change.text}
+                          </p>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
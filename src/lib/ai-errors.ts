@@ -0,0 +1,26 @@
+// Error codes shared with the generate-itinerary Edge Function
+export type AiErrorCode =
+  | 'UNAUTHENTICATED'     // No signed-in Supabase user
+  | 'BAD_REQUEST'
+  | 'RATE_LIMITED'        // Too many requests from this user in the last minute
+  | 'QUOTA_EXCEEDED'      // This user's daily token allowance is used up
+  | 'API_KEY_INVALID'     // The server's model API key is missing or rejected
+  | 'RESOURCE_EXHAUSTED'  // The model provider's own quota is used up
+  | 'UPSTREAM_ERROR';
+
+export type AiError = Error & { code: AiErrorCode };
+
+// Codes that another attempt won't fix
+const FATAL_CODES: AiErrorCode[] = ['UNAUTHENTICATED', 'BAD_REQUEST', 'RATE_LIMITED', 'QUOTA_EXCEEDED', 'API_KEY_INVALID'];
+
+export function createAiError(code: AiErrorCode, message: string): AiError {
+  return Object.assign(new Error(message), { code });
+}
+
+export function isAiError(error: unknown): error is AiError {
+  return error instanceof Error && typeof (error as Partial<AiError>).code === 'string';
+}
+
+export function isRetryableAiError(error: unknown): boolean {
+  return !isAiError(error) || !FATAL_CODES.includes(error.code);
+}
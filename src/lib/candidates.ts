@@ -0,0 +1,83 @@
+import { CandidateComment, CandidateVote, TripCandidate } from '../types/trip';
+
+// Columns of a trip_candidate_votes row
+export interface CandidateVoteRow {
+  candidate_id: string;
+  user_id: string;
+  value: 1 | -1;
+}
+
+// Columns of a trip_candidate_comments row
+export interface CandidateCommentRow {
+  id: string;
+  candidate_id: string;
+  user_id: string | null;
+  author_email: string;
+  body: string;
+  created_at: string;
+}
+
+// Columns of a trip_candidates row, with its votes and comments embedded as
+// selected by CANDIDATE_SELECT
+export interface TripCandidateRow {
+  id: string;
+  trip_id: string;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  preferred_day: number | null;
+  suggested_by: string | null;
+  created_at: string;
+  trip_candidate_votes?: CandidateVoteRow[];
+  trip_candidate_comments?: CandidateCommentRow[];
+}
+
+export const CANDIDATE_SELECT = '*, trip_candidate_votes(*), trip_candidate_comments(*)';
+
+export function toCandidateVote(row: CandidateVoteRow): CandidateVote {
+  return { userId: row.user_id, value: row.value };
+}
+
+export function toCandidateComment(row: CandidateCommentRow): CandidateComment {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    authorEmail: row.author_email,
+    body: row.body,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export function toTripCandidate(row: TripCandidateRow): TripCandidate {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    preferredDay: row.preferred_day,
+    suggestedBy: row.suggested_by,
+    votes: (row.trip_candidate_votes || []).map(toCandidateVote),
+    comments: (row.trip_candidate_comments || [])
+      .map(toCandidateComment)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Upvotes minus downvotes
+export function getScore(candidate: TripCandidate): number {
+  return candidate.votes.reduce((score, vote) => score + vote.value, 0);
+}
+
+export function getVote(candidate: TripCandidate, userId: string): 1 | -1 | null {
+  return candidate.votes.find(vote => vote.userId === userId)?.value ?? null;
+}
+
+// Highest score first; ties keep the order they were suggested in
+export function rankCandidates(candidates: TripCandidate[]): TripCandidate[] {
+  return [...candidates].sort((a, b) =>
+    getScore(b) - getScore(a) || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
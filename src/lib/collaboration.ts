@@ -0,0 +1,202 @@
+import { supabase } from './supabase';
+
+// Columns of trip_locations that make up a stop. Two versions of a stop with
+// the same values here are the same edit.
+const STOP_FIELDS = [
+  'name',
+  'address',
+  'latitude',
+  'longitude',
+  'day_index',
+  'estimated_duration',
+  'arrival_time',
+  'rating',
+  'notes',
+  'pinned_day',
+  'pinned_position',
+  'pinned_time',
+  'opening_hours',
+  'transportation_mode',
+  'kind',
+  'nights',
+  'price_tier',
+  'amenities',
+] as const;
+
+type StopField = typeof STOP_FIELDS[number];
+
+// ItineraryBuilder's locations have all of these
+export type SyncedStop = { id: string; revision?: number } & Partial<Record<StopField, unknown>>;
+
+// A stop changed both here and by someone else since the last save. `null`
+// means that side removed it.
+export interface StopConflict<T extends SyncedStop> {
+  id: string;
+  mine: T | null;
+  theirs: T | null;
+}
+
+export interface TripPresence {
+  userId: string;
+  email: string;
+  dayIndex: number | null;  // The day they're looking at, if any
+}
+
+// Empty and missing mean the same, and Postgres reads times back with seconds
+function normalize(field: StopField, value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  if (field === 'arrival_time' && typeof value === 'string') return value.slice(0, 5);
+  if (field === 'rating' && value !== null) return Number(value);
+  return value;
+}
+
+// jsonb doesn't keep key order, so compare objects key by key
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return Array.from(keys).every(key => isEqualValue(aRecord[key] ?? null, bRecord[key] ?? null));
+}
+
+export function isSameStop(a: SyncedStop | null | undefined, b: SyncedStop | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return STOP_FIELDS.every(field => isEqualValue(normalize(field, a[field]), normalize(field, b[field])));
+}
+
+// Brings stops others saved into the local, unsaved itinerary. `base` is the
+// saved version local edits started from and `saved` the latest one. A stop
+// changed both locally and in `saved` keeps the local version and comes back
+// as a conflict.
+export function mergeSavedStops<T extends SyncedStop>(
+  local: T[],
+  base: T[],
+  saved: T[]
+): { merged: T[]; conflicts: StopConflict<T>[] } {
+  const localById = new Map(local.map(stop => [stop.id, stop]));
+  const baseById = new Map(base.map(stop => [stop.id, stop]));
+  const savedById = new Map(saved.map(stop => [stop.id, stop]));
+
+  const replaced = new Map<string, T | null>();
+  const conflicts: StopConflict<T>[] = [];
+  for (const id of new Set([...baseById.keys(), ...savedById.keys()])) {
+    const before = baseById.get(id);
+    const theirs = savedById.get(id);
+    const mine = localById.get(id);
+    if (isSameStop(before, theirs)) continue;
+
+    if (isSameStop(mine, before)) {
+      replaced.set(id, theirs && mine ? { ...mine, ...theirs } : theirs ?? null);
+    } else if (!isSameStop(mine, theirs)) {
+      conflicts.push({ id, mine: mine ?? null, theirs: theirs ?? null });
+    }
+  }
+
+  if (replaced.size === 0) return { merged: local, conflicts };
+  const merged = local
+    .map(stop => replaced.has(stop.id) ? replaced.get(stop.id) : stop)
+    .filter((stop): stop is T => Boolean(stop));
+  for (const [id, stop] of replaced) {
+    if (stop && !localById.has(id)) merged.push(stop);
+  }
+  return { merged, conflicts };
+}
+
+function toStopRow(stop: SyncedStop, tripId: string): Record<string, unknown> {
+  const row: Record<string, unknown> = { id: stop.id, trip_id: tripId };
+  for (const field of STOP_FIELDS) {
+    row[field] = stop[field] ?? null;
+  }
+  // Not nullable; the column default applies
+  if (row.kind === null) delete row.kind;
+  return row;
+}
+
+// Saves the stops that differ from `base`, the itinerary as last saved, in
+// one transaction. If anybody else saved one of the changed or removed stops
+// in the meantime, nothing is saved and those stops come back in `stale`.
+// `saved` is `base` with the changes applied, or `base` itself when stale.
+export async function saveStops<T extends SyncedStop>(
+  tripId: string,
+  base: T[],
+  stops: T[]
+): Promise<{ saved: T[]; stale: string[] }> {
+  const baseById = new Map(base.map(stop => [stop.id, stop]));
+  const stopIds = new Set(stops.map(stop => stop.id));
+
+  const added = stops.filter(stop => !baseById.has(stop.id));
+  const changed = stops.filter(stop => baseById.has(stop.id) && !isSameStop(stop, baseById.get(stop.id)));
+  const removed = base.filter(stop => !stopIds.has(stop.id));
+  if (added.length + changed.length + removed.length === 0) return { saved: base, stale: [] };
+
+  const { data, error } = await supabase.rpc('save_trip_stops', {
+    save_trip_id: tripId,
+    added_stops: added.map(stop => toStopRow(stop, tripId)),
+    changed_stops: changed.map(stop => ({
+      ...toStopRow(stop, tripId),
+      revision: baseById.get(stop.id)?.revision ?? 1,
+    })),
+    removed_stops: removed.map(stop => ({ id: stop.id, revision: stop.revision ?? 1 })),
+  });
+
+  if (error) throw error;
+  const { stale, revisions } = data as { stale: string[]; revisions: Record<string, number> };
+  if (stale.length > 0) return { saved: base, stale };
+
+  const saved = new Map(baseById);
+  [...added, ...changed].forEach(stop => saved.set(stop.id, { ...stop, revision: revisions[stop.id] ?? 1 }));
+  removed.forEach(stop => saved.delete(stop.id));
+  return { saved: Array.from(saved.values()), stale: [] };
+}
+
+interface TripChannelHandlers<Row> {
+  onStopSaved: (row: Row) => void;  // A trip_locations row, inserted or updated
+  onStopDeleted: (id: string) => void;
+  onPresence: (others: TripPresence[]) => void;
+}
+
+// Listens for stop changes on a trip and shares who's looking at which day.
+// Deletes can't be filtered by trip, so `onStopDeleted` also hears about
+// other trips' stops.
+export function joinTrip<Row>(tripId: string, me: TripPresence, handlers: TripChannelHandlers<Row>) {
+  let presence = me;
+  const channel = supabase.channel(`trip:${tripId}`, {
+    config: { presence: { key: me.userId } },
+  });
+
+  channel
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'trip_locations', filter: `trip_id=eq.${tripId}` },
+      payload => {
+        if (payload.eventType === 'DELETE') {
+          const id = (payload.old as { id?: string }).id;
+          if (id) handlers.onStopDeleted(id);
+        } else {
+          handlers.onStopSaved(payload.new as Row);
+        }
+      }
+    )
+    .on('presence', { event: 'sync' }, () => {
+      const others = Object.values(channel.presenceState<TripPresence>())
+        .map(entries => entries[0])
+        .filter(person => person && person.userId !== me.userId);
+      handlers.onPresence(others);
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') channel.track(presence);
+    });
+
+  return {
+    setDay(dayIndex: number | null) {
+      if (presence.dayIndex === dayIndex) return;
+      presence = { ...presence, dayIndex };
+      channel.track(presence);
+    },
+    leave() {
+      supabase.removeChannel(channel);
+    },
+  };
+}
@@ -0,0 +1,6 @@
+// One colour per itinerary day, shared by the map and the day cards
+const DAY_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d'];
+
+export function getDayColor(day: number): string {
+  return DAY_COLORS[day % DAY_COLORS.length];
+}
@@ -0,0 +1,93 @@
+export interface GeocodedPoint {
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
+const BATCH_SIZE = 5;
+const BATCH_DELAY = 250;        // ms between batches, to stay under the per-second quota
+const MAX_QUOTA_RETRIES = 3;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let geocoder: google.maps.Geocoder | null = null;
+
+function getGeocoder(): google.maps.Geocoder {
+  if (!geocoder) {
+    geocoder = new google.maps.Geocoder();
+  }
+  return geocoder;
+}
+
+// Shared across calls so the same address is only looked up once per session.
+// Failed lookups are dropped so they can be retried.
+const cache = new Map<string, Promise<GeocodedPoint | null>>();
+
+function requestGeocode(address: string): Promise<GeocodedPoint | null> {
+  return new Promise((resolve, reject) => {
+    getGeocoder().geocode({ address }, (results, status) => {
+      if (status === google.maps.GeocoderStatus.ZERO_RESULTS) {
+        resolve(null);
+        return;
+      }
+      const location = results?.[0]?.geometry.location;
+      if (status !== google.maps.GeocoderStatus.OK || !location) {
+        reject(new Error(status));
+        return;
+      }
+      resolve({
+        address: results![0].formatted_address,
+        latitude: location.lat(),
+        longitude: location.lng(),
+      });
+    });
+  });
+}
+
+// Resolves an address to coordinates, or null when Google doesn't know it.
+// Backs off and retries when the quota is hit.
+export function geocodeAddress(address: string): Promise<GeocodedPoint | null> {
+  const key = address.trim().toLowerCase();
+  if (!key) return Promise.resolve(null);
+
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await requestGeocode(address);
+      } catch (err) {
+        const overQuota = err instanceof Error && err.message === google.maps.GeocoderStatus.OVER_QUERY_LIMIT;
+        if (!overQuota || attempt >= MAX_QUOTA_RETRIES) {
+          throw new Error(`Geocoding failed for "${address}": ${(err as Error).message}`);
+        }
+        await delay(BATCH_DELAY * 2 ** (attempt + 1));
+      }
+    }
+  })();
+
+  cache.set(key, lookup);
+  lookup.catch(() => cache.delete(key));
+  return lookup;
+}
+
+// Geocodes addresses a few at a time. Results line up with the input; an
+// address that couldn't be resolved, for whatever reason, gets null.
+export async function geocodeAddresses(addresses: string[]): Promise<(GeocodedPoint | null)[]> {
+  const results: (GeocodedPoint | null)[] = [];
+
+  for (let i = 0; i < addresses.length; i += BATCH_SIZE) {
+    if (i > 0) await delay(BATCH_DELAY);
+
+    const batch = await Promise.allSettled(addresses.slice(i, i + BATCH_SIZE).map(geocodeAddress));
+    batch.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error(result.reason);
+      }
+      results.push(result.status === 'fulfilled' ? result.value : null);
+    });
+  }
+
+  return results;
+}
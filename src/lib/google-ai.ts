@@ -1,374 +1,224 @@
-import { addMinutes, format } from 'date-fns';
-
-interface BaseLocation {
-  name: string;
-  description: string;
-  dayIndex: number;
-  address: string;
-  isStartingPoint: boolean;
-  isHotel: boolean;
-}
-
-// Fields specific to attractions (non-hotels)
-interface AttractionLocation extends BaseLocation {
-  isHotel: false;
-  estimatedDuration: number;
-  bestTimeToVisit: string;
-  travelTimeToNext: number | null;
-}
-
-// Fields specific to hotels
-interface HotelLocation extends BaseLocation {
-  isHotel: true;
-  estimatedDuration?: never;  // Explicitly prevent these fields for hotels
-  bestTimeToVisit?: never;
-  travelTimeToNext?: never;
-}
-
-// Combined type that represents either a hotel or attraction
-type Location = AttractionLocation | HotelLocation;
-
-interface PreferredPlace {
-  name: string;
-  preferredDay: number | null;
-}
+import { addDays, addMinutes, format } from 'date-fns';
+import { DEFAULT_TRANSPORT_MODE, TRANSPORT_MODE_LABELS, travelTimeService } from './travel-time';
+import { createAiError, isAiError, isRetryableAiError } from './ai-errors';
+import { createJsonArrayStreamParser } from './json-stream';
+import { EditProposal, EditableStop, validateEditProposal } from './itinerary-edits';
+import {
+  ChatTurn,
+  EditRequest,
+  ItineraryModel,
+  ItineraryRequest,
+  PreferredPlace,
+  RegenerationScope,
+  ScopeStop,
+  getItineraryModel,
+} from './itinerary-model';
+import {
+  AttractionLocation,
+  BaseLocation,
+  HotelLocation,
+  Location,
+  ValidationIssue,
+  formatValidationIssues,
+  stripHotelPrefix,
+  validateItinerary,
+} from './itinerary-schema';
+import { TransportMode } from '../types/trip';
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000;
-const MAX_TOKENS = 2048;
-
-async function callGoogleAI(prompt: string, apiKey: string): Promise<any> {
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ text: prompt }]
-        }],
-        generationConfig: {
-          temperature: 0.2,
-          topK: 32,
-          topP: 0.9,
-          maxOutputTokens: MAX_TOKENS,
-        },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_HATE_SPEECH",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          }
-        ]
-      })
-    }
+
+type ParseResult =
+  | { ok: true; locations: Location[] }
+  | { ok: false; issues: ValidationIssue[]; data?: unknown };
+
+// Checks a validated response only covers what was asked for
+function checkScope(locations: Location[], scope: RegenerationScope): ValidationIssue[] {
+  const issues: ValidationIssue[] = locations.flatMap((location, index) =>
+    location.dayIndex === scope.dayIndex
+      ? []
+      : [{ index, field: 'dayIndex', message: `must be ${scope.dayIndex}; only Day ${scope.dayIndex + 1} is being planned` }]
   );
 
-  if (!response.ok) {
-    const error = await response.json();
-    if (error.error?.message?.includes('API_KEY_INVALID')) {
-      throw new Error('Invalid Google AI API key. Please check your configuration.');
-    } else if (error.error?.message?.includes('RESOURCE_EXHAUSTED')) {
-      throw new Error('AI generation limit reached. Please try again later or continue with manual planning.');
+  if (scope.kind === 'stop') {
+    if (locations.length !== 1) {
+      issues.push({ index: null, field: null, message: `The array must contain exactly one location, not ${locations.length}` });
+    } else if (locations[0].isHotel !== scope.stop.isHotel) {
+      issues.push({ index: 0, field: 'isHotel', message: scope.stop.isHotel ? 'must be a hotel' : 'must not be a hotel' });
+    } else if (stripHotelPrefix(locations[0].name).trim().toLowerCase() === stripHotelPrefix(scope.stop.name).trim().toLowerCase()) {
+      issues.push({ index: 0, field: 'name', message: `must be a different place from "${scope.stop.name}"` });
     }
-    throw new Error(error.error?.message || 'Failed to generate itinerary');
   }
 
-  const data = await response.json();
-  return data;
+  return issues;
 }
 
-function cleanAndParseResponse(text: string): Location[] {
-  if (!text || typeof text !== 'string') {
-    throw new Error('Empty or invalid response from AI service');
-  }
-
+function parseItinerary(text: string, duration: number, scope?: RegenerationScope): ParseResult {
   console.debug('Raw AI response:', text);
 
-  // First, extract just the JSON array part
-  let match = text.match(/\[[\s\S]*\]/);
-  if (!match) {
-    throw new Error('No JSON array found in response');
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      ok: false,
+      issues: [{ index: null, field: null, message: `The response is not valid JSON (${(error as Error).message})` }],
+    };
   }
 
-  let cleanedText = match[0]
-    .trim()
-    // Remove any markdown code block markers
-    .replace(/```json\s*|\s*```/g, '')
-    // Remove any additional text before [ or after ]
-    .replace(/^[^[]*(\[[\s\S]*\])[^]*$/, '$1')
-    // Normalize line endings and whitespace
-    .replace(/\r\n/g, '\n')
-    .replace(/\n\s+/g, ' ');
-
-  console.debug('After initial cleanup:', cleanedText);
-
-  let braceCount = 0;
-  let lastCompleteObjectEnd = -1;
-  let inString = false;
-  let escapeNext = false;
-
-  for (let i = 0; i < cleanedText.length; i++) {
-    const char = cleanedText[i];
-    
-    if (escapeNext) {
-      escapeNext = false;
-      continue;
-    }
+  const result = validateItinerary(data, duration);
+  if (!result.ok) {
+    return { ...result, data };
+  }
+  const scopeIssues = scope ? checkScope(result.locations, scope) : [];
+  if (scopeIssues.length > 0) {
+    return { ok: false, issues: scopeIssues, data };
+  }
+  return { ok: true, locations: keepLastHotelPerDay(result.locations) };
+}
 
-    if (char === '\\') {
-      escapeNext = true;
-      continue;
+function keepLastHotelPerDay(locations: Location[]): Location[] {
+  const hotelsByDay = new Map<number, number>();
+  locations.forEach((item, index) => {
+    if (item.isHotel) {
+      if (hotelsByDay.has(item.dayIndex)) {
+        console.debug(`Multiple hotels found for day ${item.dayIndex}`);
+      }
+      hotelsByDay.set(item.dayIndex, index);
     }
+  });
 
-    if (char === '"' && !escapeNext) {
-      inString = !inString;
-      continue;
-    }
+  return locations.filter((item, index) =>
+    !item.isHotel || index === hotelsByDay.get(item.dayIndex)
+  );
+}
 
-    if (!inString) {
-      if (char === '{') {
-        braceCount++;
-      } else if (char === '}') {
-        braceCount--;
-        if (braceCount === 0) {
-          lastCompleteObjectEnd = i;
-        }
-      }
-    }
-  }
+// Follow-up turn asking the model to fix exactly what failed validation
+function buildCorrectionPrompt(issues: ValidationIssue[], data?: unknown): string {
+  return `Your previous response did not match the required itinerary format:
+${formatValidationIssues(issues, data)}
 
-  if (braceCount > 0 && lastCompleteObjectEnd !== -1) {
-    cleanedText = cleanedText.substring(0, lastCompleteObjectEnd + 1);
-    if (cleanedText.startsWith('[')) {
-      cleanedText += ']';
-    }
-  }
+Return the complete corrected JSON array, keeping every valid location unchanged.`;
+}
 
-  console.debug('After brace matching:', cleanedText);
-
-  // Fix common JSON formatting issues
-  cleanedText = cleanedText
-    // Remove comments
-    .replace(/\/\*[\s\S]*?\*\/|\/\/.*/g, '')
-    // Ensure property names are properly quoted
-    .replace(/(['"])?([a-zA-Z0-9_]+)(['"])?\s*:/g, '"$2":')
-    // Normalize boolean values
-    .replace(/"(isStartingPoint|isHotel)"\s*:\s*(true|false|\d)/gi, (match, key, value) => {
-      const boolValue = value === 'true' || value === '1';
-      return `"${key}":${boolValue}`;
-    })
-    // Fix numeric values that might be quoted
-    .replace(/"(estimatedDuration|travelTimeToNext|dayIndex)"\s*:\s*"?(\d+)"?/g, '"$1":$2')
-    // Handle potential string escaping issues in addresses
-    .replace(/"address"\s*:\s*"([^"]*?)(?<!\\)"(?=[,}])/g, (_match, address) => {
-      const cleanAddress = address
-        .replace(/(?<!\\)"/g, '\\"') // Escape unescaped quotes
-        .replace(/\\{2,}"/g, '\\"')  // Fix multiple escapes
-        .replace(/,\s*([^,]+)$/, (_match: string, last: string) => `, ${last}`) // Format last part of address
-        .trim();
-      return `"address":"${cleanAddress}"`;
-    })
-    // Handle potential string escaping issues in descriptions
-    .replace(/"description"\s*:\s*"([^"]*?)(?<!\\)"(?=[,}])/g, (_match, description) => {
-      const cleanDescription = description
-        .replace(/(?<!\\)"/g, '\\"') // Escape unescaped quotes
-        .replace(/\\{2,}"/g, '\\"')  // Fix multiple escapes
-        .replace(/,\s*([^,]+)$/, ', $1')
-        .trim();
-      return `"description":"${cleanDescription}"`;
-    })
-    // Clean up any formatting artifacts
-    .replace(/,(\s*[}\]])/g, '$1')    // Remove trailing commas
-    .replace(/,\s*,/g, ',')           // Fix double commas
-    .replace(/}\s*{/g, '},{')         // Ensure proper object separation
-    .replace(/\[\s*,\s*{/, '[{')      // Fix leading comma
-    .replace(/}\s*,\s*\]/, '}]');     // Fix trailing comma
-
-  console.debug('After formatting fixes:', cleanedText);
-
-  if (!cleanedText.startsWith('[') || !cleanedText.endsWith(']')) {
-    throw new Error('Invalid JSON structure: Must be an array');
+// Replaces the AI's travel estimates with the travel-time service's for every
+// leg within a day, so generated times agree with the optimizer and timeline.
+// Legs the service can't resolve keep the AI's figure.
+async function applyTravelTimes(locations: Location[], mode: TransportMode): Promise<Location[]> {
+  const days = new Map<number, Location[]>();
+  locations.forEach(location => {
+    days.set(location.dayIndex, [...(days.get(location.dayIndex) || []), location]);
+  });
+
+  // One matrix request per day keeps the element count small
+  for (const dayLocations of days.values()) {
+    await travelTimeService.prefetch(dayLocations.map(location => ({ address: location.address })), { mode });
   }
 
-  try {
-    const parsed = JSON.parse(cleanedText);
-    
-    if (!Array.isArray(parsed)) {
-      throw new Error('Parsed result is not an array');
+  return Promise.all(locations.map(async (location, index) => {
+    const next = locations[index + 1];
+    if (location.isHotel || !next || next.dayIndex !== location.dayIndex) {
+      return location;
     }
 
-    if (parsed.length === 0) {
-      throw new Error('Empty array returned from AI service');
-    }
+    const travelTime = location.transportModeToNext && location.transportModeToNext !== mode
+      ? (await travelTimeService.getTravelTimes(
+          [{ address: location.address }],
+          [{ address: next.address }],
+          { mode: location.transportModeToNext }
+        ))[0][0]
+      : travelTimeService.estimate({ address: location.address }, { address: next.address }, { mode });
+    return travelTime === null ? location : { ...location, travelTimeToNext: travelTime };
+  }));
+}
 
-    // First pass: validate and enforce exact travel times
-    const initialProcessed = parsed.map((item: any, index: number) => {
-      if (!item.name || typeof item.dayIndex !== 'number') {
-        throw new Error(`Invalid location data at index ${index}: missing required fields`);
-      }
+// A must-visit place as the prompts list it, with its day and votes if it has them
+function describePlace(place: PreferredPlace): string {
+  const details = [
+    ...(place.preferredDay !== null ? [`Day ${place.preferredDay + 1}`] : []),
+    ...(place.score !== undefined ? [`${place.score > 0 ? '+' : ''}${place.score} votes`] : []),
+  ];
+  return details.length > 0 ? `${place.name} (${details.join(', ')})` : place.name;
+}
 
-      const isHotel = item.name.toLowerCase().startsWith('[hotel]');
-      
-      // Common fields for both types
-      const baseLocation: BaseLocation = {
-        name: item.name.trim(),
-        description: item.description?.trim() || '',
-        dayIndex: item.dayIndex,
-        address: item.address?.trim() || '',
-        isStartingPoint: Boolean(item.isStartingPoint),
-        isHotel
-      };
+// When members have voted, what to drop if the places don't all fit
+function describeVoting(places: PreferredPlace[]): string {
+  return places.some(place => place.score !== undefined)
+    ? '\nMust-visit places are listed most-wanted first, with the group\'s vote score. If they don\'t all fit at this pace, keep the higher-scored ones and leave out the lowest-scored.'
+    : '';
+}
 
-      // For hotels, return just the base location
-      if (isHotel) {
-        // Validate no timing fields for hotels
-        if (item.estimatedDuration || item.travelTimeToNext || item.bestTimeToVisit) {
-          console.warn(`Hotel "${item.name}" should not have timing fields. Removing them.`);
-        }
-        return baseLocation as HotelLocation;
-      }
+// Prompt for planning one day, or one stop, of an existing itinerary
+function buildScopedPrompt(scope: RegenerationScope, request: ItineraryRequest): string {
+  const { startPoint, endPoint, duration, mustVisitPlaces, pace, transportationMode } = request;
+  const day = scope.dayIndex + 1;
+  const isLastDay = scope.dayIndex === duration - 1;
+  const describe = (stop: ScopeStop) => `${stop.name} (${stop.address})`;
+  const listOrNone = (items: string[]) => items.length > 0 ? items.join('; ') : 'none';
 
-      // For attractions, calculate exact travel times using our updated logic
-      const baseTime = getBaseTravelTime(item.travelTimeToNext, item.description);
-      // Get time of day from bestTimeToVisit if available
-      let timeStr = item.bestTimeToVisit?.toLowerCase() || '';
-      const calculatedTravelTime = calculateExactTravelTime(baseTime, isRushHour(timeStr));
-      // Ensure within reasonable bounds (5min-3hrs)
-      const finalTravelTime = Math.max(5, Math.min(180, calculatedTravelTime));
+  const shared = `Trip: ${duration} days from "${startPoint}" to "${endPoint}"
+Pace: ${pace}
+Getting Around: ${TRANSPORT_MODE_LABELS[transportationMode]}
+Already planned on other days (do NOT include): ${listOrNone(scope.plannedElsewhere)}
+Must-visit places not yet scheduled: ${listOrNone(mustVisitPlaces.map(describePlace))}${describeVoting(mustVisitPlaces)}`;
 
-      return {
-        ...baseLocation,
-        isHotel: false,
-        estimatedDuration: typeof item.estimatedDuration === 'number' ? 
-          Math.max(30, Math.min(480, item.estimatedDuration)) : 120,
-        bestTimeToVisit: item.bestTimeToVisit?.trim() || '',
-        travelTimeToNext: finalTravelTime
-      } as AttractionLocation;
-    });
+  const rules = `Entry rules:
+- Hotel names MUST start with "[HOTEL]"; hotels have no estimatedDuration, bestTimeToVisit or travelTimeToNext, include priceTier (1 budget to 4 luxury) and amenities, and their description says why the location suits the next day
+- Other entries include estimatedDuration and travelTimeToNext in whole minutes (${TRANSPORT_MODE_LABELS[transportationMode].toLowerCase()} unless transportModeToNext says otherwise) and bestTimeToVisit
+- Every entry has dayIndex ${scope.dayIndex} and isStartingPoint false
+- Include FULL addresses and keep descriptions under 200 characters`;
 
-    // Second pass: validate hotel placement rules
-    const hotelsByDay = new Map<number, number>();
-    initialProcessed.forEach((item, index) => {
-      if (item.isHotel) {
-        if (hotelsByDay.has(item.dayIndex)) {
-          console.debug(`Multiple hotels found for day ${item.dayIndex}`);
-        }
-        hotelsByDay.set(item.dayIndex, index);
-      }
-    });
+  if (scope.kind === 'stop') {
+    return `As an expert travel planner, suggest ONE alternative to a stop in an existing itinerary.
 
-    // Filter out duplicate hotels and invalid placements
-    return initialProcessed.filter((item, index) => {
-      if (!item.isHotel) return true;
-      
-      // Keep only the last hotel for each day
-      const lastHotelIndex = hotelsByDay.get(item.dayIndex);
-      return index === lastHotelIndex;
-    });
+${shared}
 
-  } catch (error) {
-    console.error('JSON parse error:', error);
-    console.error('Failed JSON string:', cleanedText);
-    
-    if (error instanceof SyntaxError && typeof error.message === 'string') {
-      const position = error.message.match(/position (\d+)/)?.[1];
-      if (position) {
-        const pos = parseInt(position);
-        const start = Math.max(0, pos - 50);
-        const end = Math.min(cleanedText.length, pos + 50);
-        const context = cleanedText.substring(start, end);
-        console.error(`Error context around position ${pos}:\n${context}`);
-        throw new Error(`Failed to parse AI response: Invalid JSON near [...${context}...]`);
-      }
-    }
-    
-    throw new Error(`Failed to parse AI response: ${(error as Error).message}`);
-  }
-}
+Day ${day} currently visits, in order: ${scope.dayStops.map(describe).join(' -> ')}
+Replace: ${describe(scope.stop)}
 
-// Get base travel time from distance and description
-function getBaseTravelTime(travelTime: string | number | undefined | null, description?: string): number {
-  // If it's already a valid number, use it
-  if (typeof travelTime === 'number' && !isNaN(travelTime)) {
-    return travelTime;
-  }
-  
-  // Extract distance from description if available
-  const distanceMatch = description?.match(/(\d+(?:\.\d+)?)\s*(?:km|kilometers?)/i);
-  if (distanceMatch) {
-    const distance = parseFloat(distanceMatch[1]);
-    
-    // Apply distance-based rules
-    if (distance < 2) return 15;      // Short distance: <2km
-    if (distance <= 5) return 25;     // Medium distance: 2-5km
-    return 45;                        // Long distance: >5km
-  }
-  
-  // Handle "varies with traffic" or other string cases
-  if (typeof travelTime === 'string') {
-    // Look for numeric values in the string
-    const numericMatch = travelTime.match(/(\d+)/);
-    if (numericMatch) {
-      return parseInt(numericMatch[1], 10);
-    }
-    
-    // Look for distance indicators in the string
-    if (travelTime.toLowerCase().includes('short') || travelTime.toLowerCase().includes('nearby')) {
-      return 15;
-    }
-    if (travelTime.toLowerCase().includes('long') || travelTime.toLowerCase().includes('far')) {
-      return 45;
-    }
-  }
-  
-  return 25; // Default to medium distance time if no other information available
-}
+Requirements:
+- Suggest a different ${scope.stop.isHotel ? 'hotel' : 'place'} that fits the same slot in the day, close to the stops before and after it
+- Prefer an unscheduled must-visit place if one fits
+- Do NOT suggest "${scope.stop.name}" or anything already planned
+
+${rules}
 
-// Calculate exact travel time based on distance and traffic rules
-function calculateExactTravelTime(base: number, isRushHour: boolean): number {
-  let time = base;
-  
-  // Rush hour adjustment (40% increase during peak hours)
-  if (isRushHour) {
-    time *= 1.4;
+Respond with a JSON array containing exactly one entry.`;
   }
-  
-  return Math.round(time);
+
+  return `As an expert travel planner, re-plan a single day of an existing itinerary.
+
+${shared}
+
+Re-plan Day ${day} of ${duration}:
+- The day starts from ${scope.startFrom ? describe(scope.startFrom) : `"${startPoint}"`}${scope.startFrom ? ', which is already planned; do not include it' : ''}
+- Keep these stops on this day: ${listOrNone(scope.fixedStops.map(describe))}
+- Fill the rest of the day with well-grouped attractions near each other, starting with unscheduled must-visit places
+- ${isLastDay
+    ? `End the day at "${endPoint}"`
+    : scope.endAt
+      ? `End the day near ${describe(scope.endAt)}, which is booked for the night; do NOT include a hotel`
+      : 'End with EXACTLY ONE hotel as the last entry, well placed for the next day'}
+
+${rules}
+
+Respond with a JSON array of Day ${day}'s entries only, in visiting order.`;
 }
 
-// Check if current time is during rush hour
-function isRushHour(timeStr: string): boolean {
-  if (!timeStr) return false;
-  
-  try {
-    const time = timeStr.toLowerCase();
-    // Morning rush: 8-10am
-    const isMorningRush = time.includes('8:') || time.includes('9:') || 
-      time.includes('8 am') || time.includes('9 am');
-    // Evening rush: 4-7pm
-    const isEveningRush = time.includes('4:') || time.includes('5:') || time.includes('6:') ||
-      time.includes('4 pm') || time.includes('5 pm') || time.includes('6 pm');
-    
-    return isMorningRush || isEveningRush;
-  } catch (e) {
-    return false;
-  }
+export interface GenerateItineraryOptions {
+  model?: ItineraryModel;
+  // Plan only this day or stop instead of the whole trip. The resolved
+  // locations then cover just that part.
+  scope?: RegenerationScope;
+  // Accommodation already booked, by night; the AI recommends hotels only
+  // for the other nights
+  bookedStays?: (ScopeStop | undefined)[];
+  signal?: AbortSignal;
+  // Called with each day as soon as it has streamed in and validated. Days
+  // may be sent again by a retry; the resolved itinerary replaces them all.
+  onDay?: (dayIndex: number, locations: Location[]) => void;
 }
 
 export async function generateItinerary(
@@ -376,13 +226,11 @@ export async function generateItinerary(
   endPoint: string,
   duration: number,
   mustVisitPlaces: PreferredPlace[],
-  pace: 'relaxed' | 'balanced' | 'intensive' = 'balanced'
+  pace: 'relaxed' | 'balanced' | 'intensive' = 'balanced',
+  transportationMode: TransportMode = DEFAULT_TRANSPORT_MODE,
+  { model = getItineraryModel(), scope, bookedStays = [], signal, onDay }: GenerateItineraryOptions = {}
 ): Promise<Location[]> {
-  const apiKey = import.meta.env.VITE_GOOGLE_AI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('Google AI API key is not configured');
-  }
+  const request = { startPoint, endPoint, duration, mustVisitPlaces, pace, transportationMode, bookedStays, scope };
 
   const paceMultiplier = {
     relaxed: 0.7,
@@ -390,27 +238,32 @@ export async function generateItinerary(
     intensive: 1.3
   };
 
-  const formattedPlaces = mustVisitPlaces.map(place => {
-    if (place.preferredDay !== null) {
-      return `${place.name} (Day ${place.preferredDay + 1})`;
-    }
-    return place.name;
-  }).join(', ');
+  const formattedPlaces = mustVisitPlaces.map(describePlace).join(', ');
+
+  const bookedNights = bookedStays
+    .slice(0, duration - 1)
+    .flatMap((stay, dayIndex) => stay ? [`   - Night after Day ${dayIndex + 1}: ${stay.name} (${stay.address})`] : []);
+  const bookedSection = bookedNights.length > 0
+    ? `
+   - Accommodation is already booked for these nights. Do NOT recommend a hotel for them; end those days near the booked place and start the next day from it:
+${bookedNights.join('\n')}`
+    : '';
 
-  const prompt = `As an expert travel planner, create a detailed ${duration}-day itinerary optimized for geographic efficiency and accommodation recommendations.
+  const prompt = scope ? buildScopedPrompt(scope, request) : `As an expert travel planner, create a detailed ${duration}-day itinerary optimized for geographic efficiency and accommodation recommendations.
 
 Start Point: ${startPoint}
 End Point: ${endPoint}
-Must-Visit Places: ${formattedPlaces}
+Must-Visit Places: ${formattedPlaces}${describeVoting(mustVisitPlaces)}
 Pace: ${pace}
+Getting Around: ${TRANSPORT_MODE_LABELS[transportationMode]}
 
 CRITICAL REQUIREMENTS:
 
 1. Day Structure and Hotels:
    - Day 1 MUST start with "${startPoint}"
    - For Days 2 to ${duration}, each day MUST start from the previous day's hotel
-   - Each day (except the last) MUST have EXACTLY ONE hotel recommendation as its last entry
-   - Day ${duration} MUST end at "${endPoint}"
+   - Each day (except the last${bookedNights.length > 0 ? ' and booked nights' : ''}) MUST have EXACTLY ONE hotel recommendation as its last entry
+   - Day ${duration} MUST end at "${endPoint}"${bookedSection}
 
 2. Geographic Optimization:
    - Group locations by proximity to minimize travel time
@@ -423,18 +276,17 @@ CRITICAL REQUIREMENTS:
    - Name MUST start with "[HOTEL]" prefix
    - Only one hotel per day (as the last entry of the day)
    - Do NOT include estimatedDuration or bestTimeToVisit for hotels
-   - Description MUST include:
-     * Price range (e.g., "$$$" for luxury, "$$" for mid-range, "$" for budget)
-     * Key amenities (e.g., "Free WiFi, Pool, Restaurant")
-     * Why it's well-positioned for next day's activities
+   - Include priceTier: 1 for budget, 2 for mid-range, 3 for upscale, 4 for luxury
+   - Include amenities as a short list (e.g., ["Free WiFi", "Pool", "Restaurant"])
+   - Description MUST say why it's well-positioned for next day's activities
+   - If staying more than one night in the same area suits the route, recommend the SAME hotel (same name and address) for each of those days
 
 4. Travel Time Rules:
-   - Include travelTimeToNext (in minutes) for each location (except hotels)
+   - Travelers get around by ${TRANSPORT_MODE_LABELS[transportationMode].toLowerCase()} unless another mode clearly suits a leg better
+   - Include travelTimeToNext (in minutes) for each location (except hotels), for the mode used on that leg
+   - Include transportModeToNext ("walk", "transit", "drive" or "bike") only when a leg should NOT use ${transportationMode}
    - Use EXACT minutes for travel times, not ranges or descriptions
-   - Short distances (<2km): 15 minutes
-   - Medium distances (2-5km): 25 minutes
-   - Long distances (>5km): 45 minutes
-   - Add 40% to travel time during peak hours (8-10am, 4-7pm)
+   - Add 40% to driving and transit times during peak hours (8-10am, 4-7pm)
 
 5. Duration Guidelines (Not Applicable to Hotels):
    - Major attractions: 180-240 minutes
@@ -448,143 +300,327 @@ CRITICAL REQUIREMENTS:
   {
     "name": "Location Name or [HOTEL] Hotel Name",
     "address": "Full Street Address, City, State/Region",
-    "description": "Brief description including key features. For hotels: include price range, amenities, and strategic location benefits",
+    "description": "Brief description including key features. For hotels: strategic location benefits",
     "estimatedDuration": number_of_minutes (omit for hotels),
     "travelTimeToNext": number_of_minutes (omit for hotels),
+    "transportModeToNext": "walk/transit/drive/bike" (optional, omit for hotels),
     "bestTimeToVisit": "morning/afternoon/evening or HH:MM" (omit for hotels),
     "dayIndex": number,
     "isStartingPoint": boolean,
-    "isHotel": boolean
+    "isHotel": boolean,
+    "priceTier": 1-4 (hotels only),
+    "amenities": ["amenity", ...] (hotels only)
   }
 ]
 
 STRICT FORMAT RULES:
 - First overall location MUST be "${startPoint}" with dayIndex 0
 - Last overall location MUST be "${endPoint}" with dayIndex ${duration - 1}
-- Each dayIndex (except last) MUST have exactly one hotel as its last entry
+- Each dayIndex (except last${bookedNights.length > 0 ? ' and booked nights' : ''}) MUST have exactly one hotel as its last entry
 - Each dayIndex (except first) MUST start with previous day's hotel
-- Use ONLY double quotes for strings
-- estimatedDuration and travelTimeToNext must be numbers (omit for hotels)
+- estimatedDuration and travelTimeToNext must be whole minutes (omit for hotels)
 - dayIndex must be between 0 and ${duration - 1}
 - Include FULL addresses
-- Keep descriptions under 200 characters
-- NO trailing commas
-- NO comments or additional text
-- NO markdown formatting
-- RESPOND WITH ONLY THE JSON ARRAY`;
+- Keep descriptions under 200 characters`;
+
+  // Normalizes validated locations (a whole itinerary or a single day) and
+  // replaces the AI's travel times with ours
+  const finishLocations = (parsedResponse: Location[]): Promise<Location[]> => {
+    // Ensure the first location is the starting point
+    if (!scope && parsedResponse.some(location => location.dayIndex === 0) &&
+        !parsedResponse[0].name.toLowerCase().includes(startPoint.toLowerCase())) {
+      const startingLocation: AttractionLocation = {
+        name: startPoint,
+        address: startPoint,
+        description: `Starting point of the journey.`,
+        estimatedDuration: 30,
+        travelTimeToNext: 0,
+        bestTimeToVisit: "morning",
+        dayIndex: 0,
+        isStartingPoint: true,
+        isHotel: false
+      };
+      parsedResponse.unshift(startingLocation);
+    }
+
+    // Update the processedResponse mapping
+    const processedResponse = parsedResponse.map((location: Location, index: number) => {
+      // Base location object
+      const baseLocation: BaseLocation = {
+        name: location.name,
+        description: location.description,
+        dayIndex: Math.max(0, Math.min(duration - 1, location.dayIndex)),
+        address: location.address,
+        isStartingPoint: location.name.toLowerCase().includes(startPoint.toLowerCase()),
+        isHotel: location.isHotel
+      };
+
+      // Return early for hotels
+      if (location.isHotel) {
+        return {
+          ...baseLocation,
+          isHotel: true,
+          priceTier: location.priceTier,
+          amenities: location.amenities,
+        } as HotelLocation;
+      }
+
+      // Process non-hotel locations
+      const attraction = location as AttractionLocation;
+      let formattedTime = attraction.bestTimeToVisit?.toLowerCase();
+      if (formattedTime?.includes(':')) {
+        try {
+          const [hours, minutes] = formattedTime.split(':').map(Number);
+          formattedTime = format(new Date().setHours(hours, minutes || 0), 'h:mm a');
+        } catch (e) {
+          formattedTime = attraction.bestTimeToVisit;
+        }
+      }
+
+      return {
+        ...baseLocation,
+        isHotel: false,
+        estimatedDuration: Math.round((attraction.estimatedDuration || 120) * paceMultiplier[pace]),
+        bestTimeToVisit: formattedTime || '',
+        travelTimeToNext: index < parsedResponse.length - 1 ? attraction.travelTimeToNext : 0,
+        transportModeToNext: attraction.transportModeToNext
+      } as AttractionLocation;
+    });
+
+    // Sort by day and time, ensuring proper order
+    const sortedResponse = processedResponse.sort((a: Location, b: Location) => {
+      // If they're on different days
+      if (a.dayIndex !== b.dayIndex) return a.dayIndex - b.dayIndex;
+    
+      // Handle special cases for each day
+      if (a.dayIndex === 0) {
+        // Day 1: Start with startPoint
+        if (a.isStartingPoint) return -1;
+        if (b.isStartingPoint) return 1;
+      } else if (a.dayIndex === duration - 1) {
+        // Last day: End with endPoint
+        if (a.name.toLowerCase().includes(endPoint.toLowerCase())) return 1;
+        if (b.name.toLowerCase().includes(endPoint.toLowerCase())) return -1;
+      }
+    
+      // Within the same day
+      // Hotels go last (except for last day)
+      if (a.dayIndex < duration - 1) {
+        if (a.isHotel && !b.isHotel) return 1;
+        if (!a.isHotel && b.isHotel) return -1;
+      }
+    
+      // Sort by time if available
+      return (a.bestTimeToVisit || '').localeCompare(b.bestTimeToVisit || '');
+    });
+
+    return applyTravelTimes(sortedResponse, transportationMode);
+  };
+
+  let currentAttempt = 0;
+  let finished = false;
+
+  // Hands each day to onDay once the stream has moved on to the next one. Only
+  // works while days arrive in order; the last day waits for the full result.
+  const streamDays = (attempt: number) => {
+    currentAttempt = attempt;
+    const parser = createJsonArrayStreamParser();
+    let currentDay: number | null = null;
+    let dayItems: unknown[] = [];
+    let inOrder = true;
+
+    const sendDay = (dayIndex: number, items: unknown[]) => {
+      const result = validateItinerary(items, duration);
+      if (!result.ok) return;
+      finishLocations(keepLastHotelPerDay(result.locations))
+        .then(locations => {
+          if (!finished && attempt === currentAttempt && !signal?.aborted) {
+            onDay!(dayIndex, locations);
+          }
+        })
+        .catch(error => console.error(`Failed to prepare day ${dayIndex + 1}:`, error));
+    };
+
+    return (chunk: string) => {
+      parser.push(chunk).forEach(item => {
+        const dayIndex = (item as { dayIndex?: unknown }).dayIndex;
+        if (typeof dayIndex !== 'number') return;
+
+        if (dayIndex !== currentDay) {
+          if (currentDay !== null && inOrder) sendDay(currentDay, dayItems);
+          if (currentDay !== null && dayIndex < currentDay) inOrder = false;
+          currentDay = dayIndex;
+          dayItems = [];
+        }
+        dayItems.push(item);
+      });
+    };
+  };
 
   let lastError: Error | null = null;
+  const turns: ChatTurn[] = [{ role: 'user', text: prompt }];
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
       console.debug(`Attempt ${attempt} of ${MAX_RETRIES}`);
 
-      const data = await callGoogleAI(prompt, apiKey);
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      const text = await model.complete(turns, request, {
+        signal,
+        onText: onDay && streamDays(attempt),
+      });
+      const parsed = parseItinerary(text, duration, scope);
+      if (!parsed.ok) {
+        // Retry straight away with the errors spelled out, rather than
+        // re-sending the same prompt and hoping for a different answer
+        console.warn('AI response failed validation:\n' + formatValidationIssues(parsed.issues, parsed.data));
+        lastError = new Error(`Invalid itinerary from AI (${parsed.issues.length} problem${parsed.issues.length === 1 ? '' : 's'})`);
+        turns.push(
+          { role: 'model', text },
+          { role: 'user', text: buildCorrectionPrompt(parsed.issues, parsed.data) }
+        );
+        continue;
+      }
 
-      if (!text) {
-        throw new Error('No response received from Google AI');
+      const locations = await finishLocations(parsed.locations);
+      finished = true;
+      return locations;
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw error;
       }
+      console.error(`Attempt ${attempt} failed:`, error);
+      lastError = error;
 
-      const parsedResponse = cleanAndParseResponse(text);
-
-      // Ensure the first location is the starting point
-      if (!parsedResponse[0] || !parsedResponse[0].name.toLowerCase().includes(startPoint.toLowerCase())) {
-        const startingLocation: AttractionLocation = {
-          name: startPoint,
-          address: startPoint,
-          description: `Starting point of the journey.`,
-          estimatedDuration: 30,
-          travelTimeToNext: 0,
-          bestTimeToVisit: "morning",
-          dayIndex: 0,
-          isStartingPoint: true,
-          isHotel: false
-        };
-        parsedResponse.unshift(startingLocation);
+      if (!isRetryableAiError(error)) {
+        throw error;
       }
 
-      // Update the processedResponse mapping
-      const processedResponse = parsedResponse.map((location: Location, index: number) => {
-        // Base location object
-        const baseLocation: BaseLocation = {
-          name: location.name,
-          description: location.description,
-          dayIndex: Math.max(0, Math.min(duration - 1, location.dayIndex)),
-          address: location.address,
-          isStartingPoint: location.name.toLowerCase().includes(startPoint.toLowerCase()),
-          isHotel: location.isHotel
-        };
-
-        // Return early for hotels
-        if (location.isHotel) {
-          return baseLocation as HotelLocation;
-        }
+      if (attempt < MAX_RETRIES) {
+        console.debug(`Retrying in ${RETRY_DELAY}ms...`);
+        await delay(RETRY_DELAY * attempt);
+        signal?.throwIfAborted();
+      }
+    }
+  }
 
-        // Process non-hotel locations
-        const attraction = location as AttractionLocation;
-        let formattedTime = attraction.bestTimeToVisit?.toLowerCase();
-        if (formattedTime?.includes(':')) {
-          try {
-            const [hours, minutes] = formattedTime.split(':').map(Number);
-            formattedTime = format(new Date().setHours(hours, minutes || 0), 'h:mm a');
-          } catch (e) {
-            formattedTime = attraction.bestTimeToVisit;
-          }
-        }
+  const message = `Failed to generate itinerary after ${MAX_RETRIES} attempts. Last error: ${lastError?.message}`;
+  throw isAiError(lastError) ? createAiError(lastError.code, message) : new Error(message);
+}
 
-        // Calculate exact travel time
-        const baseTime = getBaseTravelTime(attraction.travelTimeToNext, attraction.description);
-        const exactTravelTime = calculateExactTravelTime(
-          baseTime,
-          isRushHour(formattedTime || '')
-        );
+export interface ProposeEditsOptions {
+  model?: ItineraryModel;
+  signal?: AbortSignal;
+  // Earlier messages in the chat, oldest first, so follow-ups like "and the
+  // day after" make sense
+  history?: ChatTurn[];
+}
 
-        return {
-          ...baseLocation,
-          isHotel: false,
-          estimatedDuration: Math.round((attraction.estimatedDuration || 120) * paceMultiplier[pace]),
-          bestTimeToVisit: formattedTime || '',
-          travelTimeToNext: index < parsedResponse.length - 1 ? exactTravelTime : 0
-        } as AttractionLocation;
+// Asks the model to turn a natural-language request into edits against the
+// current stops. `locationIds` lines up with `stops` and is what the returned
+// edits refer to. Nothing is applied; the caller reviews the proposal first.
+export async function proposeItineraryEdits(
+  instruction: string,
+  stops: EditableStop[],
+  locationIds: string[],
+  duration: number,
+  startDate: Date,
+  { model = getItineraryModel(), signal, history = [] }: ProposeEditsOptions = {}
+): Promise<EditProposal> {
+  const request: EditRequest = { kind: 'edit', instruction, stops, duration };
+
+  const days = Array.from({ length: duration }, (_, dayIndex) => {
+    const date = format(addDays(startDate, dayIndex), 'EEEE d MMMM');
+    const dayStops = stops
+      .filter(stop => stop.dayIndex === dayIndex)
+      .map(stop => {
+        const details = [
+          stop.arrivalTime && `arrives ${stop.arrivalTime}`,
+          stop.estimatedDuration && `${stop.estimatedDuration} min`,
+          stop.kind !== 'attraction' && stop.kind.replace('_', ' '),
+          stop.pinned && 'pinned',
+        ].filter(Boolean).join(', ');
+        return `  ${stop.ref}: ${stop.name} (${stop.address})${details ? ` [${details}]` : ''}`;
       });
+    return `Day ${dayIndex + 1}, dayIndex ${dayIndex} (${date}):\n${dayStops.length > 0 ? dayStops.join('\n') : '  no stops'}`;
+  }).join('\n');
+
+  const conversation = history.length > 0
+    ? `\nConversation so far:\n${history.map(turn => `${turn.role === 'user' ? 'Traveler' : 'Planner'}: ${turn.text}`).join('\n')}\n`
+    : '';
+
+  const prompt = `As an expert travel planner, change an existing ${duration}-day itinerary as the traveler asks.
+
+Current itinerary, in visiting order:
+${days}
+${conversation}
+Traveler's request: "${instruction}"
+
+Respond with an object with:
+- "reply": one or two sentences telling the traveler what you changed, or why you couldn't
+- "edits": the smallest list of edits that does what was asked, applied in order:
+  * {"op": "add", "name", "address", "dayIndex", "position"?, "arrivalTime"?, "estimatedDuration"?, "notes"?} adds a new place
+  * {"op": "move", "stop", "dayIndex", "position"?, "arrivalTime"?} moves a stop to another day or position
+  * {"op": "remove", "stop"} removes a stop
+  * {"op": "retime", "stop", "arrivalTime"?, "estimatedDuration"?} changes when or how long a stop is visited
+
+Rules:
+- "stop" is a ref from the list above, like "s1"
+- "position" counts from 0 within the day, after earlier edits; leave it out to add at the end of the day
+- Times are 24-hour "HH:MM"; durations are whole minutes
+- Only give "arrivalTime" when the traveler asks for a time; it fixes when the stop starts and pins it to its day, and other times are worked out from travel and opening hours
+- Stops marked hotel are where the traveler sleeps; keep one as the last stop of each day except the last
+- Start the name of an added hotel with "[HOTEL]"
+- Only move or remove a pinned stop if the traveler asks about it by name
+- Include FULL addresses for added places
+- If the request is unclear or impossible, return no edits and say why in "reply"`;
 
-      // Sort by day and time, ensuring proper order
-      return processedResponse.sort((a: Location, b: Location) => {
-        // If they're on different days
-        if (a.dayIndex !== b.dayIndex) return a.dayIndex - b.dayIndex;
-        
-        // Handle special cases for each day
-        if (a.dayIndex === 0) {
-          // Day 1: Start with startPoint
-          if (a.isStartingPoint) return -1;
-          if (b.isStartingPoint) return 1;
-        } else if (a.dayIndex === duration - 1) {
-          // Last day: End with endPoint
-          if (a.name.toLowerCase().includes(endPoint.toLowerCase())) return 1;
-          if (b.name.toLowerCase().includes(endPoint.toLowerCase())) return -1;
-        }
-        
-        // Within the same day
-        // Hotels go last (except for last day)
-        if (a.dayIndex < duration - 1) {
-          if (a.isHotel && !b.isHotel) return 1;
-          if (!a.isHotel && b.isHotel) return -1;
+  let lastError: Error | null = null;
+  const turns: ChatTurn[] = [{ role: 'user', text: prompt }];
+
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      const text = await model.complete(turns, request, { signal });
+      console.debug('Raw AI edit response:', text);
+
+      let data: unknown;
+      let issues: ValidationIssue[];
+      try {
+        data = JSON.parse(text);
+        const result = validateEditProposal(data, stops, locationIds, duration);
+        if (result.ok) return result.proposal;
+        issues = result.issues;
+      } catch (error) {
+        issues = [{ index: null, field: null, message: `The response is not valid JSON (${(error as Error).message})` }];
+      }
+
+      // Issues are indexed by edit, so name them from the edits array
+      const details = formatValidationIssues(issues, (data as { edits?: unknown } | undefined)?.edits);
+      console.warn('AI edit response failed validation:\n' + details);
+      lastError = new Error(`Invalid edits from AI (${issues.length} problem${issues.length === 1 ? '' : 's'})`);
+      turns.push(
+        { role: 'model', text },
+        {
+          role: 'user',
+          text: `Your previous response did not match the required format:
+${details}
+
+Return the complete corrected object, keeping every valid edit unchanged.`,
         }
-        
-        // Sort by time if available
-        return (a.bestTimeToVisit || '').localeCompare(b.bestTimeToVisit || '');
-      });
-    } catch (error: any) {
+      );
+    } catch (error) {
+      if (signal?.aborted || !isRetryableAiError(error)) {
+        throw error;
+      }
       console.error(`Attempt ${attempt} failed:`, error);
-      lastError = error;
+      lastError = error as Error;
 
       if (attempt < MAX_RETRIES) {
-        console.debug(`Retrying in ${RETRY_DELAY}ms...`);
         await delay(RETRY_DELAY * attempt);
+        signal?.throwIfAborted();
       }
     }
   }
 
-  throw new Error(`Failed to generate itinerary after ${MAX_RETRIES} attempts. Last error: ${lastError?.message}`);
-}
\ No newline at end of file
+  const message = `Failed to plan the changes after ${MAX_RETRIES} attempts. Last error: ${lastError?.message}`;
+  throw isAiError(lastError) ? createAiError(lastError.code, message) : new Error(message);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { applyEdits, EditableLocation, ItineraryEdit, toEditableStops, validateEditProposal } from './itinerary-edits';
+
+const stop = (id: string, day_index: number, extra: Partial<EditableLocation> = {}): EditableLocation => ({
+  id,
+  name: id,
+  address: `${id} street`,
+  day_index,
+  estimated_duration: 60,
+  pinned_day: null,
+  pinned_position: null,
+  pinned_time: null,
+  ...extra,
+});
+
+const LOCATIONS = [stop('a', 0), stop('b', 0), stop('c', 1)];
+const STOPS = toEditableStops(LOCATIONS);
+const IDS = LOCATIONS.map(location => location.id);
+
+const validate = (edits: unknown[]) => validateEditProposal({ reply: 'Done', edits }, STOPS, IDS, 3);
+
+describe('validateEditProposal', () => {
+  it('maps stop refs back to ids', () => {
+    expect(validate([{ op: 'retime', stop: 's2', arrivalTime: '14:00' }])).toEqual({
+      ok: true,
+      proposal: { reply: 'Done', edits: [{ op: 'retime', stopId: 'b', arrivalTime: '14:00' }] },
+    });
+  });
+
+  it.each(['9:30', '24:00', '09:30 am'])('rejects the arrival time %s', arrivalTime => {
+    const result = validate([{ op: 'move', stop: 's1', dayIndex: 1, arrivalTime }]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.issues).toEqual([{ index: 0, field: 'arrivalTime', message: expect.any(String) }]);
+  });
+
+  it('reports every problem at once', () => {
+    const result = validate([
+      { op: 'move', stop: 's9', dayIndex: 3 },
+      { op: 'retime', stop: 's1' },
+    ]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.issues.map(issue => [issue.index, issue.field])).toEqual([[0, 'stop'], [0, 'dayIndex'], [1, null]]);
+  });
+
+  it('rejects edits to a stop removed earlier', () => {
+    const result = validate([{ op: 'remove', stop: 's1' }, { op: 'retime', stop: 's1', estimatedDuration: 30 }]);
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('toEditableStops', () => {
+  it('shows a pinned start time ahead of the scheduled one', () => {
+    const [editable] = toEditableStops([stop('a', 0, { arrival_time: '10:15', pinned_day: 0, pinned_time: '11:00' })]);
+    expect(editable).toMatchObject({ arrivalTime: '11:00', pinned: true });
+  });
+});
+
+describe('applyEdits', () => {
+  const create = (edit: Extract<ItineraryEdit, { op: 'add' }>) => stop(edit.name, edit.dayIndex);
+
+  it('pins a retimed stop to its day and time', () => {
+    const [a] = applyEdits(LOCATIONS, [{ op: 'retime', stopId: 'a', arrivalTime: '14:00' }], create);
+    expect(a).toMatchObject({ pinned_day: 0, pinned_time: '14:00', estimated_duration: 60 });
+  });
+
+  it('pins a moved stop to its new day when given a time', () => {
+    const result = applyEdits(LOCATIONS, [{ op: 'move', stopId: 'a', dayIndex: 1, position: 0, arrivalTime: '09:30' }], create);
+    expect(result.map(location => location.id)).toEqual(['b', 'a', 'c']);
+    expect(result[1]).toMatchObject({ day_index: 1, pinned_day: 1, pinned_time: '09:30' });
+  });
+
+  it('keeps a day pin with the stop but drops its position', () => {
+    const pinned = [stop('a', 0, { pinned_day: 0, pinned_position: 0 }), stop('c', 1)];
+    const [, moved] = applyEdits(pinned, [{ op: 'move', stopId: 'a', dayIndex: 1 }], create);
+    expect(moved).toMatchObject({ id: 'a', pinned_day: 1, pinned_position: null, pinned_time: null });
+  });
+
+  it('adds to an empty day after the days before it', () => {
+    const result = applyEdits(
+      [stop('a', 0), stop('c', 2)],
+      [{ op: 'add', name: 'new', address: 'New street', dayIndex: 1 }],
+      create
+    );
+    expect(result.map(location => location.id)).toEqual(['a', 'new', 'c']);
+  });
+
+  it('does not change the locations it was given', () => {
+    const locations = LOCATIONS.map(location => ({ ...location }));
+    applyEdits(locations, [{ op: 'retime', stopId: 'a', arrivalTime: '14:00' }, { op: 'remove', stopId: 'b' }], create);
+    expect(locations).toEqual(LOCATIONS);
+  });
+});
@@ -0,0 +1,299 @@
+import { LocationKind } from '../types/trip';
+import { isHotelStop } from './itinerary-optimizer';
+import { ValidationIssue } from './itinerary-schema';
+import { isClockTime, parseTime } from './schedule';
+
+// A stop as the model sees it when editing. `ref` is a short stand-in for the
+// stop's ID so the model doesn't have to copy UUIDs.
+export interface EditableStop {
+  ref: string;
+  name: string;
+  address: string;
+  dayIndex: number;
+  arrivalTime?: string;
+  estimatedDuration?: number;
+  pinned: boolean;
+  kind: LocationKind;
+}
+
+export type ItineraryEdit =
+  | {
+      op: 'add';
+      name: string;
+      address: string;
+      dayIndex: number;
+      position?: number;  // Within the day, after earlier edits; the end when left out
+      arrivalTime?: string;
+      estimatedDuration?: number;
+      notes?: string;
+    }
+  | { op: 'move'; stopId: string; dayIndex: number; position?: number; arrivalTime?: string }
+  | { op: 'remove'; stopId: string }
+  | { op: 'retime'; stopId: string; arrivalTime?: string; estimatedDuration?: number };
+
+export interface EditProposal {
+  reply: string;  // The model's short summary of what it changed, or why it couldn't
+  edits: ItineraryEdit[];
+}
+
+// The fields edits touch; ItineraryBuilder's locations have all of these
+export interface EditableLocation {
+  id: string;
+  name: string;
+  address: string;
+  day_index: number;
+  estimated_duration?: number;
+  arrival_time?: string;
+  pinned_day?: number | null;
+  pinned_position?: number | null;
+  pinned_time?: string | null;
+  kind?: LocationKind;
+}
+
+const EDIT_OPS = ['add', 'move', 'remove', 'retime'] as const;
+
+// Gemini response schema for `EditProposal`. Its dialect has no unions, so
+// every edit field is optional and `validateEditProposal` checks which ones
+// each op needs.
+export const EDIT_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    reply: { type: 'STRING' },
+    edits: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          op: { type: 'STRING', enum: [...EDIT_OPS] },
+          stop: { type: 'STRING' },
+          name: { type: 'STRING' },
+          address: { type: 'STRING' },
+          dayIndex: { type: 'INTEGER' },
+          position: { type: 'INTEGER' },
+          arrivalTime: { type: 'STRING' },
+          estimatedDuration: { type: 'INTEGER' },
+          notes: { type: 'STRING' },
+        },
+        required: ['op'],
+        propertyOrdering: [
+          'op', 'stop', 'name', 'address', 'dayIndex', 'position', 'arrivalTime', 'estimatedDuration', 'notes',
+        ],
+      },
+    },
+  },
+  required: ['reply', 'edits'],
+  propertyOrdering: ['reply', 'edits'],
+};
+
+export function toEditableStops<T extends EditableLocation>(locations: T[]): EditableStop[] {
+  return locations.map((location, index) => ({
+    ref: `s${index + 1}`,
+    name: location.name,
+    address: location.address,
+    dayIndex: location.day_index,
+    arrivalTime: location.pinned_time || (parseTime(location.arrival_time) !== null ? location.arrival_time : undefined),
+    estimatedDuration: location.estimated_duration,
+    pinned: location.pinned_day !== null && location.pinned_day !== undefined,
+    kind: isHotelStop(location) ? 'hotel' : location.kind ?? 'attraction',
+  }));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Checks a parsed response against `EditProposal` and maps stop refs back to
+// location IDs. Like `validateItinerary`, reports every problem at once.
+export function validateEditProposal(
+  data: unknown,
+  stops: EditableStop[],
+  locationIds: string[],
+  duration: number
+): { ok: true; proposal: EditProposal } | { ok: false; issues: ValidationIssue[] } {
+  if (!isRecord(data) || typeof data.reply !== 'string' || !Array.isArray(data.edits)) {
+    return {
+      ok: false,
+      issues: [{ index: null, field: null, message: 'The response must be an object with a "reply" string and an "edits" array' }],
+    };
+  }
+
+  const idsByRef = new Map(stops.map((stop, index) => [stop.ref, locationIds[index]]));
+  const removed = new Set<string>();
+  const issues: ValidationIssue[] = [];
+  const edits: ItineraryEdit[] = [];
+
+  data.edits.forEach((item, index) => {
+    const issue = (field: string | null, message: string) => issues.push({ index, field, message });
+
+    if (!isRecord(item) || !EDIT_OPS.includes(item.op as typeof EDIT_OPS[number])) {
+      issue('op', `must be one of ${EDIT_OPS.join(', ')}`);
+      return;
+    }
+    const op = item.op as ItineraryEdit['op'];
+
+    let stopId: string | undefined;
+    if (op !== 'add') {
+      stopId = typeof item.stop === 'string' ? idsByRef.get(item.stop) : undefined;
+      if (!stopId) {
+        issue('stop', `must be one of the stop refs (${stops.map(stop => stop.ref).join(', ')})`);
+      } else if (removed.has(stopId)) {
+        issue('stop', 'was removed by an earlier edit');
+      }
+    }
+
+    if (op === 'add' || op === 'move') {
+      if (typeof item.dayIndex !== 'number' || !Number.isInteger(item.dayIndex) || item.dayIndex < 0 || item.dayIndex >= duration) {
+        issue('dayIndex', `must be an integer from 0 to ${duration - 1}`);
+      }
+    }
+    if (op === 'add') {
+      if (!isNonEmptyString(item.name)) issue('name', 'must be a non-empty string');
+      if (!isNonEmptyString(item.address)) issue('address', 'must be a non-empty string');
+    }
+    if (item.position !== undefined && (typeof item.position !== 'number' || !Number.isInteger(item.position) || item.position < 0)) {
+      issue('position', 'must be a whole number, 0 or more');
+    }
+    if (item.arrivalTime !== undefined && !isClockTime(item.arrivalTime)) {
+      issue('arrivalTime', 'must be a 24-hour time like "09:30"');
+    }
+    if (item.estimatedDuration !== undefined &&
+        (typeof item.estimatedDuration !== 'number' || item.estimatedDuration < 15 || item.estimatedDuration > 600)) {
+      issue('estimatedDuration', 'must be between 15 and 600 minutes');
+    }
+    if (op === 'retime' && item.arrivalTime === undefined && item.estimatedDuration === undefined) {
+      issue(null, 'a retime needs arrivalTime, estimatedDuration or both');
+    }
+
+    if (issues.some(existing => existing.index === index)) return;
+
+    const timing = {
+      ...(item.arrivalTime !== undefined ? { arrivalTime: item.arrivalTime as string } : {}),
+      ...(item.estimatedDuration !== undefined ? { estimatedDuration: Math.round(item.estimatedDuration as number) } : {}),
+    };
+    const position = item.position as number | undefined;
+
+    switch (op) {
+      case 'add':
+        edits.push({
+          op,
+          name: (item.name as string).trim(),
+          address: (item.address as string).trim(),
+          dayIndex: item.dayIndex as number,
+          position,
+          notes: typeof item.notes === 'string' ? item.notes.trim() : undefined,
+          ...timing,
+        });
+        break;
+      case 'move':
+        edits.push({ op, stopId: stopId!, dayIndex: item.dayIndex as number, position, arrivalTime: timing.arrivalTime });
+        break;
+      case 'remove':
+        removed.add(stopId!);
+        edits.push({ op, stopId: stopId! });
+        break;
+      case 'retime':
+        edits.push({ op, stopId: stopId!, ...timing });
+        break;
+    }
+  });
+
+  return issues.length > 0
+    ? { ok: false, issues }
+    : { ok: true, proposal: { reply: data.reply.trim(), edits } };
+}
+
+function insertIntoDay<T extends EditableLocation>(locations: T[], stop: T, position?: number): T[] {
+  const dayIndices = locations
+    .map((location, index) => location.day_index === stop.day_index ? index : -1)
+    .filter(index => index !== -1);
+
+  let insertAt: number;
+  if (position !== undefined && position < dayIndices.length) {
+    insertAt = dayIndices[position];
+  } else if (dayIndices.length > 0) {
+    insertAt = dayIndices[dayIndices.length - 1] + 1;
+  } else {
+    // First stop of an empty day goes after the days before it
+    const nextDay = locations.findIndex(location => location.day_index > stop.day_index);
+    insertAt = nextDay === -1 ? locations.length : nextDay;
+  }
+
+  return [...locations.slice(0, insertAt), stop, ...locations.slice(insertAt)];
+}
+
+// Arrival times are worked out by the scheduler, so a time the traveler asks
+// for becomes a start-time pin, which also keeps the stop on its day
+export const pinStart = (dayIndex: number, time: string) => ({ pinned_day: dayIndex, pinned_time: time });
+
+// Applies edits in order. `createStop` builds the location for an add.
+export function applyEdits<T extends EditableLocation>(
+  locations: T[],
+  edits: ItineraryEdit[],
+  createStop: (edit: Extract<ItineraryEdit, { op: 'add' }>) => T
+): T[] {
+  return edits.reduce((current, edit) => {
+    switch (edit.op) {
+      case 'add':
+        return insertIntoDay(current, createStop(edit), edit.position);
+
+      case 'remove':
+        return current.filter(location => location.id !== edit.stopId);
+
+      case 'move': {
+        const stop = current.find(location => location.id === edit.stopId);
+        if (!stop) return current;
+        const moved: T = {
+          ...stop,
+          day_index: edit.dayIndex,
+          // A stop pinned to its day stays pinned to wherever it was moved
+          pinned_day: stop.pinned_day !== null && stop.pinned_day !== undefined ? edit.dayIndex : stop.pinned_day,
+          pinned_position: null,
+          ...(edit.arrivalTime ? pinStart(edit.dayIndex, edit.arrivalTime) : {}),
+        };
+        return insertIntoDay(current.filter(location => location.id !== edit.stopId), moved, edit.position);
+      }
+
+      case 'retime':
+        return current.map(location =>
+          location.id === edit.stopId
+            ? {
+                ...location,
+                ...(edit.arrivalTime ? pinStart(location.day_index, edit.arrivalTime) : {}),
+                estimated_duration: edit.estimatedDuration ?? location.estimated_duration,
+              }
+            : location
+        );
+    }
+  }, locations);
+}
+
+// One line per edit for the review list
+export function describeEdit(edit: ItineraryEdit, locations: EditableLocation[]): { title: string; detail: string } {
+  const stop = 'stopId' in edit ? locations.find(location => location.id === edit.stopId) : undefined;
+  const name = stop?.name ?? 'Unknown stop';
+  const day = (dayIndex: number) => `Day ${dayIndex + 1}`;
+  const timing = (arrivalTime?: string, estimatedDuration?: number) =>
+    [arrivalTime && `at ${arrivalTime}`, estimatedDuration && `for ${estimatedDuration} min`].filter(Boolean).join(' ');
+
+  switch (edit.op) {
+    case 'add':
+      return {
+        title: `Add ${edit.name}`,
+        detail: [day(edit.dayIndex), timing(edit.arrivalTime, edit.estimatedDuration), edit.address].filter(Boolean).join(' · '),
+      };
+    case 'move':
+      return {
+        title: `Move ${name}`,
+        detail: `${stop ? day(stop.day_index) : '?'} → ${day(edit.dayIndex)}${edit.arrivalTime ? ` at ${edit.arrivalTime}` : ''}`,
+      };
+    case 'remove':
+      return { title: `Remove ${name}`, detail: stop ? day(stop.day_index) : '' };
+    case 'retime': {
+      const startTime = stop?.pinned_time || stop?.arrival_time;
+      const before = timing(startTime, stop?.estimated_duration) || 'no set time';
+      return { title: `Retime ${name}`, detail: `${before} → ${timing(edit.arrivalTime ?? startTime, edit.estimatedDuration ?? stop?.estimated_duration)}` };
+    }
+  }
+}
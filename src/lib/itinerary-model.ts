@@ -0,0 +1,171 @@
+import { AiErrorCode, createAiError } from './ai-errors';
+import { EDIT_RESPONSE_SCHEMA, EditableStop } from './itinerary-edits';
+import { ITINERARY_RESPONSE_SCHEMA } from './itinerary-schema';
+import { createMockModel } from './mock-itinerary-model';
+import { supabase } from './supabase';
+import { TransportMode } from '../types/trip';
+
+export interface PreferredPlace {
+  name: string;
+  preferredDay: number | null;
+  score?: number;  // Trip members' upvotes minus downvotes
+}
+
+export interface ScopeStop {
+  name: string;
+  address: string;
+}
+
+// Part of an existing itinerary to plan again, with the context the model
+// needs to fit the new stops around what stays
+export type RegenerationScope =
+  | {
+      kind: 'day';
+      dayIndex: number;
+      startFrom?: ScopeStop;         // The previous night's hotel
+      endAt?: ScopeStop;             // Tonight's booked stay, when there is one
+      fixedStops: ScopeStop[];       // Pinned stops that must stay on the day
+      plannedElsewhere: string[];    // Stops already on other days
+    }
+  | {
+      kind: 'stop';
+      dayIndex: number;
+      stop: ScopeStop & { isHotel: boolean };
+      dayStops: ScopeStop[];         // The whole day in order, including the stop
+      plannedElsewhere: string[];
+    };
+
+// What the itinerary is for. Real models only see the prompt; the mock
+// builds its answer from this directly.
+export interface ItineraryRequest {
+  kind?: 'itinerary';
+  startPoint: string;
+  endPoint: string;
+  duration: number;
+  mustVisitPlaces: PreferredPlace[];
+  pace: 'relaxed' | 'balanced' | 'intensive';
+  transportationMode: TransportMode;
+  bookedStays: (ScopeStop | undefined)[];  // Accommodation already booked, by night
+  scope?: RegenerationScope;
+}
+
+// A natural-language change to an existing itinerary
+export interface EditRequest {
+  kind: 'edit';
+  instruction: string;
+  stops: EditableStop[];
+  duration: number;
+}
+
+export type ModelRequest = ItineraryRequest | EditRequest;
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface CompletionOptions {
+  signal?: AbortSignal;
+  onText?: (chunk: string) => void;  // Each piece of the answer as it streams in
+}
+
+// A model that answers a conversation with JSON text: an itinerary, or edits
+// to one. Parsing and validation are left to the caller so every model gets
+// the same corrective retries.
+export interface ItineraryModel {
+  name: string;
+  complete(turns: ChatTurn[], request: ModelRequest, options?: CompletionOptions): Promise<string>;
+}
+
+export type ItineraryModelProvider = 'edge-function' | 'mock';
+
+const responseSchemaFor = (request: ModelRequest) =>
+  request.kind === 'edit' ? EDIT_RESPONSE_SCHEMA : ITINERARY_RESPONSE_SCHEMA;
+
+async function readTextStream(response: Response, onText: (chunk: string) => void): Promise<void> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    onText(value);
+  }
+}
+
+// Calls onData with the payload of each `data:` line in a server-sent event stream
+async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+  let buffer = '';
+  await readTextStream(response, chunk => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop()!;
+    lines
+      .filter(line => line.startsWith('data:'))
+      .forEach(line => onData(line.slice(5).trim()));
+  });
+}
+
+// The model behind the generate-itinerary Edge Function, which picks the
+// provider, holds its API key and applies per-user rate limits and quotas.
+// The function streams back the answer text as server-sent events, with an
+// error event if the model fails part way through.
+export function createEdgeFunctionModel(): ItineraryModel {
+  return {
+    name: 'edge-function',
+    async complete(turns, request, { signal, onText } = {}) {
+      const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-itinerary`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          apikey: anonKey,
+          Authorization: `Bearer ${session?.access_token ?? anonKey}`,
+        },
+        body: JSON.stringify({ turns, responseSchema: responseSchemaFor(request) }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw createAiError(
+          body?.error?.code || 'UPSTREAM_ERROR',
+          body?.error?.message || 'Failed to generate itinerary'
+        );
+      }
+
+      let text = '';
+      await readEventStream(response, data => {
+        const event: { text?: string; error?: { code: AiErrorCode; message: string } } = JSON.parse(data);
+        if (event.error) throw createAiError(event.error.code, event.error.message);
+        if (event.text) {
+          text += event.text;
+          onText?.(event.text);
+        }
+      });
+
+      if (!text) {
+        throw createAiError('UPSTREAM_ERROR', 'No response received from the AI model');
+      }
+      return text;
+    },
+  };
+}
+
+// Picks the model from VITE_AI_PROVIDER: "mock" to run offline, otherwise
+// whichever model the Edge Function is configured with. API keys for real
+// models only ever live in the Edge Function.
+export function getItineraryModel(): ItineraryModel {
+  const provider = (import.meta.env.VITE_AI_PROVIDER || 'edge-function') as ItineraryModelProvider;
+
+  switch (provider) {
+    case 'mock':
+      return createMockModel();
+
+    case 'edge-function':
+      return createEdgeFunctionModel();
+
+    default:
+      throw createAiError('API_KEY_INVALID', `Unknown AI provider "${provider}"`);
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { getStayByNight, optimizeItinerary, optimizeRoute, OptimizerLocation } from './itinerary-optimizer';
+
+const place = (id: string, latitude: number, longitude: number, extra: Partial<OptimizerLocation> = {}): OptimizerLocation => ({
+  id,
+  name: id,
+  address: '',
+  latitude,
+  longitude,
+  day_index: 0,
+  estimated_duration: 60,
+  ...extra,
+});
+
+const CENTER = { latitude: 48.8566, longitude: 2.3522 };
+const near = (id: string, offset: number, extra: Partial<OptimizerLocation> = {}) =>
+  place(id, CENTER.latitude + offset * 0.005, CENTER.longitude, extra);
+
+const START = new Date(2025, 5, 2);
+const END = new Date(2025, 5, 4);
+
+describe('optimizeRoute', () => {
+  it('orders stops along the way from the start', () => {
+    const route = optimizeRoute([near('c', 3), near('a', 1), near('b', 2)], CENTER);
+    expect(route.map(stop => stop.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps a pinned position', () => {
+    const route = optimizeRoute([near('a', 1), near('b', 2), near('c', 3, { pinned_day: 0, pinned_position: 0 })], CENTER);
+    expect(route.map(stop => stop.id)).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('getStayByNight', () => {
+  it('covers a hotel\'s nights and lets a later check-in take over', () => {
+    const first = near('first', 0, { kind: 'hotel', day_index: 0, nights: 3 });
+    const second = near('second', 0, { kind: 'hotel', day_index: 1 });
+    const stays = getStayByNight([second, first], 4);
+    expect([0, 1, 2, 3].map(night => stays.get(night)?.id)).toEqual(['first', 'second', 'first', undefined]);
+  });
+});
+
+describe('optimizeItinerary', () => {
+  const optimize = (locations: OptimizerLocation[]) =>
+    optimizeItinerary({ locations, startDate: START, endDate: END, pace: 'balanced', departurePoint: CENTER });
+
+  it('keeps pinned stops on their day', () => {
+    const days = optimize([near('a', 1), near('b', 2), near('pinned', 1, { pinned_day: 2 }), near('c', 3)]);
+    expect(days).toHaveLength(3);
+    expect(days[2].locations.map(stop => stop.id)).toContain('pinned');
+  });
+
+  it('schedules a stop pinned outside the trip freely, with a warning', () => {
+    const days = optimize([near('a', 1), near('far', 2, { pinned_day: 7 })]);
+    expect(days.flatMap(day => day.locations).map(stop => stop.id).sort()).toEqual(['a', 'far']);
+    expect(days[0].warnings).toContain('"far" is pinned to day 8, which is outside this trip, so it was scheduled freely.');
+  });
+
+  it('lists each hotel once, on its first night', () => {
+    const hotel = near('hotel', 0, { kind: 'hotel', day_index: 0, nights: 2 });
+    const days = optimize([hotel, near('a', 1), near('b', 2)]);
+    const hotelDays = days.map(day => day.locations.filter(stop => stop.id === 'hotel').length);
+    expect(hotelDays).toEqual([1, 0, 0]);
+  });
+
+  it('starts a pinned time at that time', () => {
+    const days = optimize([near('a', 1), near('timed', 2, { pinned_day: 0, pinned_time: '14:00' })]);
+    const index = days[0].locations.findIndex(stop => stop.id === 'timed');
+    expect(days[0].schedule[index]).toMatchObject({ start: 14 * 60, issue: null });
+  });
+});
@@ -0,0 +1,843 @@
+import { format } from 'date-fns';
+import { DaySchedule, LocationKind, OpeningHours, TransportMode } from '../types/trip';
+import { DEFAULT_DAY_SCHEDULE, getOverrun, isOpenOn, parseTime, scheduleStops, ScheduledStop } from './schedule';
+import { calculateDistance, DEFAULT_TRANSPORT_MODE, estimateTravelTime } from './travel-time';
+import { DstShift, getDstShift } from './time-zone';
+
+export type Pace = 'relaxed' | 'balanced' | 'intensive';
+
+export interface OptimizerLocation {
+  id: string;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  day_index: number;
+  estimated_duration?: number;
+  rating?: number;
+  notes?: string;
+  pinned_day?: number | null;
+  pinned_position?: number | null;
+  pinned_time?: string | null;  // HH:mm the visit has to start at
+  opening_hours?: OpeningHours | null;
+  transportation_mode?: TransportMode | null;
+  kind?: LocationKind;
+  nights?: number | null;
+  priority?: number;  // Vote score of a must-visit place; higher is kept first
+}
+
+export interface OptimizedDay {
+  date: Date;
+  locations: OptimizerLocation[];
+  totalTravelTime: number;
+  totalDuration: number;
+  totalDistance: number;
+  timeBudget: number;
+  schedule: ScheduledStop[];  // One entry per stop, hotels excluded
+  warnings: string[];
+  leftOut: OptimizerLocation[];  // Low-voted must-visits dropped to fit this day
+}
+
+interface Point {
+  latitude: number;
+  longitude: number;
+  transportation_mode?: TransportMode | null;  // Mode for the leg leaving this point
+}
+
+// Fixed points a day's route has to leave from and arrive at
+interface DayAnchors {
+  date: Date;
+  start?: Point;
+  end?: Point;
+  hotels: OptimizerLocation[];  // Checked into at the end of this day
+}
+
+// When a route is given a calendar day, stops visited outside their opening
+// hours count as a long detour
+interface RouteTiming {
+  date: Date;
+  settings: DaySchedule;
+  pace: Pace;
+  mode: TransportMode;
+  dstShift: DstShift | null;
+}
+
+export interface RouteMetrics {
+  totalDistance: number;
+  totalTravelTime: number;
+}
+
+interface OptimizeItineraryOptions {
+  locations: OptimizerLocation[];
+  startDate: Date;
+  endDate: Date;
+  pace: Pace;
+  transportationMode?: TransportMode;
+  departurePoint: Point;
+  returnPoint?: Point;
+  bookedStays?: (Point | undefined)[];  // Booked accommodation by night, ahead of hotel stops
+  daySchedules?: Record<number, DaySchedule>;
+  timeZones?: string[];  // By day, for days the clocks change
+}
+
+const DEFAULT_VISIT_DURATION = 60;
+const MAX_CLUSTER_ITERATIONS = 25;
+const MAX_IMPROVEMENT_PASSES = 50;
+const OR_OPT_MAX_SEGMENT = 3;
+const TIME_WINDOW_PENALTY_KM = 50;
+
+// Hours of sightseeing (visits plus travel) we plan into a single day
+const DAILY_TIME_BUDGET: Record<Pace, number> = {
+  relaxed: 6 * 60,
+  balanced: 8 * 60,
+  intensive: 10 * 60,
+};
+
+function distanceBetween(from: Point, to: Point): number {
+  return calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+}
+
+// Stops from before location kinds, and AI entries not yet converted, are
+// marked by a "[HOTEL]" prefix instead
+export function isHotelStop(location: { name: string; kind?: LocationKind }): boolean {
+  return location.kind === 'hotel' || /^\[hotel\]/i.test(location.name.trim());
+}
+
+// The hotel slept in each night, keyed by the index of the day the night
+// follows. A hotel covers `nights` nights from its own day; a later check-in
+// takes over any overlapping night.
+export function getStayByNight<T extends { name: string; kind?: LocationKind; day_index: number; nights?: number | null }>(
+  locations: T[],
+  daysCount: number
+): Map<number, T> {
+  const stays = new Map<number, T>();
+  locations
+    .filter(isHotelStop)
+    .sort((a, b) => a.day_index - b.day_index)
+    .forEach(hotel => {
+      const firstNight = Math.max(0, Math.min(daysCount - 1, hotel.day_index));
+      for (let night = firstNight; night < firstNight + (hotel.nights || 1) && night < daysCount; night++) {
+        stays.set(night, hotel);
+      }
+    });
+  return stays;
+}
+
+export function isPinned(location: OptimizerLocation): boolean {
+  return location.pinned_day !== undefined && location.pinned_day !== null;
+}
+
+function hasPinnedPosition(location: OptimizerLocation): boolean {
+  return location.pinned_position !== undefined && location.pinned_position !== null;
+}
+
+export function getPaceMultiplier(pace: Pace): number {
+  switch (pace) {
+    case 'relaxed':
+      return 0.7;
+    case 'intensive':
+      return 1.3;
+    default:
+      return 1;
+  }
+}
+
+export function getDailyTimeBudget(pace: Pace): number {
+  return DAILY_TIME_BUDGET[pace];
+}
+
+// Each leg uses the mode set on the point it leaves from, else the trip's
+function travelTimeBetween(from: Point, to: Point, mode: TransportMode): number {
+  return estimateTravelTime(from, to, { mode: from.transportation_mode || mode });
+}
+
+function getVisitDuration(location: OptimizerLocation, pace: Pace): number {
+  return (location.estimated_duration || DEFAULT_VISIT_DURATION) * getPaceMultiplier(pace);
+}
+
+// Total visit and travel time for a route, including the legs from its start
+// point and to its end point
+export function summarizeRoute(
+  route: OptimizerLocation[],
+  pace: Pace,
+  start?: Point,
+  end?: Point,
+  mode: TransportMode = DEFAULT_TRANSPORT_MODE
+): { totalTravelTime: number; totalDuration: number } {
+  const totalDuration = route.reduce((sum, location) => sum + getVisitDuration(location, pace), 0);
+  return {
+    totalTravelTime: measureRoute(route, start, end, mode).totalTravelTime,
+    totalDuration: Math.round(totalDuration),
+  };
+}
+
+function scheduleRoute(route: OptimizerLocation[], start: Point | undefined, timing: RouteTiming): ScheduledStop[] {
+  return scheduleStops(
+    route.map((location, index) => {
+      const previous = index === 0 ? start : route[index - 1];
+      return {
+        duration: getVisitDuration(location, timing.pace),
+        travelTime: previous ? travelTimeBetween(previous, location, timing.mode) : 0,
+        openingHours: location.opening_hours,
+        fixedStart: parseTime(location.pinned_time),
+      };
+    }),
+    timing.date,
+    timing.settings,
+    timing.dstShift
+  );
+}
+
+export function measureRoute(
+  route: Point[],
+  start?: Point,
+  end?: Point,
+  mode: TransportMode = DEFAULT_TRANSPORT_MODE
+): RouteMetrics {
+  const points = [...(start ? [start] : []), ...route, ...(end ? [end] : [])];
+  let totalDistance = 0;
+  let totalTravelTime = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    totalDistance += distanceBetween(points[i - 1], points[i]);
+    totalTravelTime += travelTimeBetween(points[i - 1], points[i], mode);
+  }
+
+  return { totalDistance, totalTravelTime };
+}
+
+// Farthest-point seeding: without existing medoids the first one is the stop
+// closest to the origin, each following one is the stop farthest from every
+// medoid chosen so far.
+function seedMedoids(
+  locations: OptimizerLocation[],
+  count: number,
+  origin: Point,
+  existing: Point[] = []
+): OptimizerLocation[] {
+  const medoids: OptimizerLocation[] = [];
+  if (count <= 0) return medoids;
+
+  if (existing.length === 0) {
+    let first = locations[0];
+    for (const location of locations) {
+      if (distanceBetween(origin, location) < distanceBetween(origin, first)) {
+        first = location;
+      }
+    }
+    medoids.push(first);
+  }
+
+  while (medoids.length < count) {
+    let farthest: OptimizerLocation | null = null;
+    let farthestDistance = -1;
+    for (const location of locations) {
+      if (medoids.includes(location)) continue;
+      const nearest = Math.min(...[...existing, ...medoids].map(m => distanceBetween(m, location)));
+      if (nearest > farthestDistance) {
+        farthest = location;
+        farthestDistance = nearest;
+      }
+    }
+    if (!farthest) break;
+    medoids.push(farthest);
+  }
+
+  return medoids;
+}
+
+// Assigns every stop to a medoid without exceeding the daily time budget.
+// Stops with the most to lose from not getting their nearest medoid (highest
+// regret) pick first; stops that fit nowhere go to the least loaded cluster.
+function assignToMedoids(
+  locations: OptimizerLocation[],
+  medoids: Point[],
+  pace: Pace,
+  mode: TransportMode,
+  initialLoads: number[] = []
+): OptimizerLocation[][] {
+  const budget = getDailyTimeBudget(pace);
+  const clusters: OptimizerLocation[][] = medoids.map(() => []);
+  const loads = medoids.map((_, index) => initialLoads[index] || 0);
+
+  const ranked = locations
+    .map(location => {
+      const preferences = medoids
+        .map((medoid, index) => ({ index, distance: distanceBetween(location, medoid) }))
+        .sort((a, b) => a.distance - b.distance);
+      const regret = preferences.length > 1 ? preferences[1].distance - preferences[0].distance : 0;
+      return { location, preferences, regret };
+    })
+    // Medoids claim their own cluster before anything else is placed
+    .sort((a, b) => {
+      const aIsMedoid = medoids.includes(a.location) ? 1 : 0;
+      const bIsMedoid = medoids.includes(b.location) ? 1 : 0;
+      return bIsMedoid - aIsMedoid || b.regret - a.regret;
+    });
+
+  for (const { location, preferences } of ranked) {
+    const costFor = (index: number) =>
+      getVisitDuration(location, pace) + travelTimeBetween(medoids[index], location, mode);
+
+    let target = preferences.find(({ index }) => loads[index] + costFor(index) <= budget)?.index;
+    if (target === undefined) {
+      target = loads.indexOf(Math.min(...loads));
+    }
+
+    clusters[target].push(location);
+    loads[target] += costFor(target);
+  }
+
+  return clusters;
+}
+
+// The member with the smallest summed distance to the rest of its cluster
+function findMedoid(cluster: OptimizerLocation[]): OptimizerLocation {
+  let best = cluster[0];
+  let bestCost = Infinity;
+  for (const candidate of cluster) {
+    const cost = cluster.reduce((sum, other) => sum + distanceBetween(candidate, other), 0);
+    if (cost < bestCost) {
+      best = candidate;
+      bestCost = cost;
+    }
+  }
+  return best;
+}
+
+// Balanced k-medoids over haversine distance. Returns exactly `numClusters`
+// clusters, one per day. Stops in `pinned` stay on their day and that day's
+// medoid is fixed at their centre; the free clusters are ordered so each day
+// starts near where the previous one ended.
+export function clusterLocations(
+  locations: OptimizerLocation[],
+  numClusters: number,
+  pace: Pace,
+  origin: Point,
+  pinned: OptimizerLocation[][] = [],
+  mode: TransportMode = DEFAULT_TRANSPORT_MODE
+): OptimizerLocation[][] {
+  const count = Math.max(1, numClusters);
+  const pinnedDays = Array.from({ length: count }, (_, day) => pinned[day] || []);
+  if (locations.length === 0) {
+    return pinnedDays.map(stops => [...stops]);
+  }
+
+  const fixedSlots = pinnedDays.flatMap((stops, day) =>
+    stops.length > 0 ? [{ day, medoid: findMedoid(stops) as Point, stops }] : []
+  );
+  const fixedMedoids = fixedSlots.map(slot => slot.medoid);
+  const fixedLoads = fixedSlots.map(({ medoid, stops }) =>
+    stops.reduce((sum, stop) => sum + getVisitDuration(stop, pace) + travelTimeBetween(medoid, stop, mode), 0)
+  );
+  const freeDayCount = count - fixedSlots.length;
+
+  let freeMedoids = seedMedoids(locations, Math.min(freeDayCount, locations.length), origin, fixedMedoids);
+  let clusters = assignToMedoids(locations, [...fixedMedoids, ...freeMedoids], pace, mode, fixedLoads);
+
+  for (let iteration = 0; iteration < MAX_CLUSTER_ITERATIONS; iteration++) {
+    const nextMedoids = freeMedoids.map((medoid, index) => {
+      const cluster = clusters[fixedSlots.length + index];
+      return cluster.length > 0 ? findMedoid(cluster) : medoid;
+    });
+    if (nextMedoids.every((medoid, index) => medoid.id === freeMedoids[index].id)) break;
+
+    freeMedoids = nextMedoids;
+    clusters = assignToMedoids(locations, [...fixedMedoids, ...freeMedoids], pace, mode, fixedLoads);
+  }
+
+  const days: OptimizerLocation[][] = Array.from({ length: count }, () => []);
+  fixedSlots.forEach(({ day, stops }, index) => {
+    days[day] = [...stops, ...clusters[index]];
+  });
+
+  // Chain the free clusters into the open days, always taking the one
+  // nearest to where the previous day left off
+  const remaining = freeMedoids.map((medoid, index) => ({
+    cluster: clusters[fixedSlots.length + index],
+    medoid,
+  }));
+  let position: Point = origin;
+  for (let day = 0; day < count; day++) {
+    const fixed = fixedSlots.find(slot => slot.day === day);
+    if (fixed) {
+      position = fixed.medoid;
+      continue;
+    }
+    if (remaining.length === 0) continue;
+
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (distanceBetween(position, remaining[i].medoid) < distanceBetween(position, remaining[nearest].medoid)) {
+        nearest = i;
+      }
+    }
+    const [next] = remaining.splice(nearest, 1);
+    days[day] = next.cluster;
+    position = next.medoid;
+  }
+
+  return days;
+}
+
+// Greedy nearest-neighbour tour, starting from `start` when one is given
+function nearestNeighbourRoute(
+  locations: OptimizerLocation[],
+  start?: Point
+): OptimizerLocation[] {
+  const unvisited = [...locations];
+  const route: OptimizerLocation[] = [];
+  let current: Point = start || unvisited.shift()!;
+  if (!start) route.push(current as OptimizerLocation);
+
+  while (unvisited.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < unvisited.length; i++) {
+      if (distanceBetween(current, unvisited[i]) < distanceBetween(current, unvisited[nearest])) {
+        nearest = i;
+      }
+    }
+    const [next] = unvisited.splice(nearest, 1);
+    route.push(next);
+    current = next;
+  }
+
+  return route;
+}
+
+// Local search over 2-opt (reverse a segment) and Or-opt (move a run of up
+// to three stops elsewhere, optionally reversed) until neither finds a
+// shorter route by `lengthOf`.
+function improveRoute(
+  route: OptimizerLocation[],
+  lengthOf: (route: OptimizerLocation[]) => number
+): OptimizerLocation[] {
+  let best = route;
+  let bestLength = lengthOf(route);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < best.length - 1 && !improved; i++) {
+      for (let j = i + 1; j < best.length && !improved; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const candidateLength = lengthOf(candidate);
+        if (candidateLength < bestLength - 1e-9) {
+          best = candidate;
+          bestLength = candidateLength;
+          improved = true;
+        }
+      }
+    }
+
+    for (let size = 1; size <= OR_OPT_MAX_SEGMENT && !improved; size++) {
+      for (let i = 0; i + size <= best.length && !improved; i++) {
+        const segment = best.slice(i, i + size);
+        const rest = [...best.slice(0, i), ...best.slice(i + size)];
+        for (let position = 0; position <= rest.length && !improved; position++) {
+          if (position === i) continue;
+          for (const ordered of size > 1 ? [segment, [...segment].reverse()] : [segment]) {
+            const candidate = [...rest.slice(0, position), ...ordered, ...rest.slice(position)];
+            const candidateLength = lengthOf(candidate);
+            if (candidateLength < bestLength - 1e-9) {
+              best = candidate;
+              bestLength = candidateLength;
+              improved = true;
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return best;
+}
+
+// Places stops with a pinned position into their slot (or the closest free
+// one when two claim the same slot) and fills the remaining slots in order
+function composeWithPinnedPositions(
+  pinned: OptimizerLocation[],
+  free: OptimizerLocation[]
+): OptimizerLocation[] {
+  const size = pinned.length + free.length;
+  const slots: (OptimizerLocation | null)[] = Array(size).fill(null);
+
+  for (const stop of pinned) {
+    const wanted = Math.max(0, Math.min(size - 1, stop.pinned_position!));
+    let slot = wanted;
+    for (let offset = 1; slots[slot] && offset < size; offset++) {
+      if (wanted + offset < size && !slots[wanted + offset]) {
+        slot = wanted + offset;
+      } else if (wanted - offset >= 0 && !slots[wanted - offset]) {
+        slot = wanted - offset;
+      }
+    }
+    slots[slot] = stop;
+  }
+
+  const queue = [...free];
+  return slots.map(slot => slot || queue.shift()!);
+}
+
+// Nearest-neighbour construction followed by local improvement between fixed
+// start and end anchors. Stops with a pinned position keep it; everything else
+// is rearranged around them. With timing, a stop that can't start at its
+// pinned time counts as a violation, so orders that keep the time win.
+export function optimizeRoute(
+  locations: OptimizerLocation[],
+  start?: Point,
+  end?: Point,
+  timing?: RouteTiming
+): OptimizerLocation[] {
+  if (locations.length <= 1) return locations;
+
+  const pinned = locations
+    .filter(hasPinnedPosition)
+    .sort((a, b) => a.pinned_position! - b.pinned_position!);
+  const free = locations.filter(loc => !hasPinnedPosition(loc));
+  const compose = (route: OptimizerLocation[]) => composeWithPinnedPositions(pinned, route);
+  const lengthOf = (route: OptimizerLocation[]) => {
+    const full = compose(route);
+    const distance = measureRoute(full, start, end).totalDistance;
+    if (!timing) return distance;
+    const violations = scheduleRoute(full, start, timing).filter(stop => stop.issue).length;
+    return distance + violations * TIME_WINDOW_PENALTY_KM;
+  };
+
+  return compose(improveRoute(nearestNeighbourRoute(free, start), lengthOf));
+}
+
+// Day 1 leaves from the departure point and every later day from where the
+// night before was spent: a booked stay, else a hotel stop. A day ends where
+// its own night is spent, or at the return point on the last day. Each hotel
+// stop is kept once, on the first night it's the stay for, or on its own day
+// when later hotels cover all of its nights.
+function getDayAnchors(
+  startDate: Date,
+  daysCount: number,
+  hotels: OptimizerLocation[],
+  departurePoint: Point,
+  returnPoint?: Point,
+  bookedStays: (Point | undefined)[] = []
+): DayAnchors[] {
+  const stayByNight = getStayByNight(hotels, daysCount);
+  const nightAt = (night: number): Point | undefined => bookedStays[night] ?? stayByNight.get(night);
+  const hotelDay = new Map<OptimizerLocation, number>();
+  for (let night = 0; night < daysCount; night++) {
+    const stay = stayByNight.get(night);
+    if (stay && !hotelDay.has(stay)) hotelDay.set(stay, night);
+  }
+  for (const hotel of hotels) {
+    if (!hotelDay.has(hotel)) hotelDay.set(hotel, Math.max(0, Math.min(daysCount - 1, hotel.day_index)));
+  }
+
+  return Array.from({ length: daysCount }, (_, index) => {
+    const date = new Date(startDate);
+    date.setDate(date.getDate() + index);
+    return {
+      date,
+      start: index === 0 ? departurePoint : nightAt(index - 1),
+      end: nightAt(index) || (index === daysCount - 1 ? returnPoint : undefined),
+      hotels: hotels.filter(hotel => hotelDay.get(hotel) === index),
+    };
+  });
+}
+
+// Moves stops out of days whose routed total overruns the budget and into the
+// nearest day that still has room for them. Expects already routed days and
+// re-routes both days touched by each move.
+function rebalanceDays(
+  days: OptimizerLocation[][],
+  pace: Pace,
+  mode: TransportMode,
+  anchors: DayAnchors[],
+  routeDay: (stops: OptimizerLocation[], index: number) => OptimizerLocation[]
+): OptimizerLocation[][] {
+  const budget = getDailyTimeBudget(pace);
+  const result = [...days];
+  const totalFor = (index: number) => {
+    const { totalTravelTime, totalDuration } = summarizeRoute(
+      result[index],
+      pace,
+      anchors[index].start,
+      anchors[index].end,
+      mode
+    );
+    return totalTravelTime + totalDuration;
+  };
+
+  const maxMoves = days.reduce((sum, day) => sum + day.length, 0);
+  for (let move = 0; move < maxMoves; move++) {
+    const overIndices = result.map((_, index) => index).filter(index => totalFor(index) > budget);
+    if (overIndices.length === 0) break;
+
+    let bestMove: { stop: OptimizerLocation; from: number; target: number; distance: number } | null = null;
+    for (const overIndex of overIndices) {
+      if (result[overIndex].length <= 1) continue;
+
+      for (const stop of result[overIndex].filter(loc => !isPinned(loc))) {
+        for (let target = 0; target < result.length; target++) {
+          if (target === overIndex || !isOpenOn(stop.opening_hours, anchors[target].date)) continue;
+          // Empty days are judged by where the day before them ends
+          const previousDay = result[target - 1] || [];
+          const anchor: Point = result[target].length > 0
+            ? findMedoid(result[target])
+            : anchors[target].start || previousDay[previousDay.length - 1] || stop;
+          const distance = distanceBetween(anchor, stop);
+          const projected = totalFor(target) + getVisitDuration(stop, pace) + travelTimeBetween(anchor, stop, mode);
+          if (projected <= budget && (!bestMove || distance < bestMove.distance)) {
+            bestMove = { stop, from: overIndex, target, distance };
+          }
+        }
+      }
+    }
+
+    if (!bestMove) break;
+    const { stop, from, target } = bestMove;
+    result[from] = routeDay(result[from].filter(loc => loc.id !== stop.id), from);
+    result[target] = routeDay([...result[target], stop], target);
+  }
+
+  return result;
+}
+
+// Days still over budget after rebalancing leave out their least-wanted
+// must-visit places, lowest vote score first. Only places voted below another
+// must-visit on the same day go, so ties and unvoted trips keep every stop.
+// What's dropped is collected in `leftOut` by day.
+function leaveOutLowestPriority(
+  days: OptimizerLocation[][],
+  pace: Pace,
+  mode: TransportMode,
+  anchors: DayAnchors[],
+  routeDay: (stops: OptimizerLocation[], index: number) => OptimizerLocation[],
+  warnings: string[][],
+  leftOut: OptimizerLocation[][]
+): OptimizerLocation[][] {
+  const budget = getDailyTimeBudget(pace);
+
+  return days.map((day, index) => {
+    let route = day;
+    const totalFor = (stops: OptimizerLocation[]) => {
+      const { totalTravelTime, totalDuration } = summarizeRoute(stops, pace, anchors[index].start, anchors[index].end, mode);
+      return totalTravelTime + totalDuration;
+    };
+
+    while (totalFor(route) > budget) {
+      const voted = route.filter(stop => stop.priority !== undefined);
+      const highest = Math.max(...voted.map(stop => stop.priority!));
+      const candidates = voted.filter(stop => !isPinned(stop) && stop.priority! < highest);
+      if (candidates.length === 0) break;
+
+      const lowest = candidates.reduce((worst, stop) => stop.priority! < worst.priority! ? stop : worst);
+      route = routeDay(route.filter(stop => stop.id !== lowest.id), index);
+      leftOut[index].push(lowest);
+      warnings[index].push(
+        `"${lowest.name}" was left out to fit the day; it had fewer votes than the other must-visit places here.`
+      );
+    }
+    return route;
+  });
+}
+
+function getDaysCount(startDate: Date, endDate: Date): number {
+  return Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+}
+
+// Distance and travel time of the itinerary in its current, unoptimized order
+export function measureItinerary({
+  locations,
+  startDate,
+  endDate,
+  transportationMode = DEFAULT_TRANSPORT_MODE,
+  departurePoint,
+  returnPoint,
+  bookedStays,
+}: Omit<OptimizeItineraryOptions, 'pace' | 'daySchedules' | 'timeZones'>): RouteMetrics {
+  const daysCount = getDaysCount(startDate, endDate);
+  const anchors = getDayAnchors(startDate, daysCount, locations.filter(isHotelStop), departurePoint, returnPoint, bookedStays);
+
+  return anchors.reduce<RouteMetrics>(
+    (totals, { start, end }, index) => {
+      const route = locations.filter(loc => loc.day_index === index && !isHotelStop(loc));
+      const metrics = measureRoute(route, start, end, transportationMode);
+      return {
+        totalDistance: totals.totalDistance + metrics.totalDistance,
+        totalTravelTime: totals.totalTravelTime + metrics.totalTravelTime,
+      };
+    },
+    { totalDistance: 0, totalTravelTime: 0 }
+  );
+}
+
+// Moves free stops off days their venue is closed to the nearest day it's
+// open, preferring days that still have room in their budget
+function moveClosedStops(
+  days: OptimizerLocation[][],
+  pace: Pace,
+  mode: TransportMode,
+  anchors: DayAnchors[],
+  warnings: string[][]
+): OptimizerLocation[][] {
+  const budget = getDailyTimeBudget(pace);
+  const result = days.map(day => [...day]);
+  const loadOf = (index: number) => {
+    const { totalTravelTime, totalDuration } = summarizeRoute(result[index], pace, anchors[index].start, undefined, mode);
+    return totalTravelTime + totalDuration;
+  };
+
+  days.forEach((day, index) => {
+    for (const stop of day) {
+      if (isOpenOn(stop.opening_hours, anchors[index].date)) continue;
+
+      if (isPinned(stop)) {
+        warnings[index].push(`"${stop.name}" is pinned to this day but closed on ${format(anchors[index].date, 'EEEE')}s.`);
+        continue;
+      }
+
+      let best: { target: number; full: boolean; distance: number } | null = null;
+      for (let target = 0; target < result.length; target++) {
+        if (target === index || !isOpenOn(stop.opening_hours, anchors[target].date)) continue;
+        const anchor: Point = result[target].length > 0 ? findMedoid(result[target]) : anchors[target].start || stop;
+        const distance = distanceBetween(anchor, stop);
+        const full = loadOf(target) + getVisitDuration(stop, pace) > budget;
+        if (!best || (best.full && !full) || (best.full === full && distance < best.distance)) {
+          best = { target, full, distance };
+        }
+      }
+
+      if (!best) {
+        warnings[index].push(`"${stop.name}" is closed on every day of this trip.`);
+        continue;
+      }
+      result[index] = result[index].filter(loc => loc.id !== stop.id);
+      result[best.target].push(stop);
+    }
+  });
+
+  return result;
+}
+
+export function optimizeItinerary({
+  locations,
+  startDate,
+  endDate,
+  pace,
+  transportationMode = DEFAULT_TRANSPORT_MODE,
+  departurePoint,
+  returnPoint,
+  bookedStays,
+  daySchedules = {},
+  timeZones = [],
+}: OptimizeItineraryOptions): OptimizedDay[] {
+  const daysCount = getDaysCount(startDate, endDate);
+  const budget = getDailyTimeBudget(pace);
+  const warnings: string[][] = Array.from({ length: daysCount }, () => []);
+  const leftOut: OptimizerLocation[][] = Array.from({ length: daysCount }, () => []);
+
+  // Hotels stay on their night and anchor the days around them
+  const hotels = locations.filter(isHotelStop);
+  const anchors = getDayAnchors(startDate, daysCount, hotels, departurePoint, returnPoint, bookedStays);
+  const dstShifts = anchors.map((anchor, index) => timeZones[index] ? getDstShift(anchor.date, timeZones[index]) : null);
+  const timingFor = (index: number): RouteTiming => ({
+    date: anchors[index].date,
+    settings: daySchedules[index] || DEFAULT_DAY_SCHEDULE,
+    pace,
+    mode: transportationMode,
+    dstShift: dstShifts[index],
+  });
+  const routeDay = (stops: OptimizerLocation[], index: number) =>
+    optimizeRoute(stops, anchors[index].start, anchors[index].end, timingFor(index));
+
+  // Pinned stops stay on their day; the rest are free to move
+  const pinnedDays: OptimizerLocation[][] = Array.from({ length: daysCount }, () => []);
+  const freeStops: OptimizerLocation[] = [];
+  for (const stop of locations.filter(loc => !isHotelStop(loc))) {
+    if (!isPinned(stop)) {
+      freeStops.push(stop);
+    } else if (stop.pinned_day! < 0 || stop.pinned_day! >= daysCount) {
+      warnings[0].push(`"${stop.name}" is pinned to day ${stop.pinned_day! + 1}, which is outside this trip, so it was scheduled freely.`);
+      freeStops.push({ ...stop, pinned_day: null, pinned_position: null });
+    } else {
+      pinnedDays[stop.pinned_day!].push(stop);
+    }
+  }
+
+  pinnedDays.forEach((stops, index) => {
+    if (stops.length === 0) return;
+    const { start, end } = anchors[index];
+    const { totalTravelTime, totalDuration } = summarizeRoute(routeDay(stops, index), pace, start, end, transportationMode);
+    if (totalTravelTime + totalDuration > budget) {
+      warnings[index].push(
+        `Pinned stops alone need ${formatHours(totalTravelTime + totalDuration)} but only ${formatHours(budget)} are available. Unpin a stop or move it to another day.`
+      );
+    }
+  });
+
+  // Group locations by proximity, move stops off days they're closed, then
+  // fix any day the routed total pushes over budget, leaving out the
+  // least-voted must-visits where moving stops isn't enough
+  const clusters = moveClosedStops(
+    clusterLocations(freeStops, daysCount, pace, departurePoint, pinnedDays, transportationMode),
+    pace,
+    transportationMode,
+    anchors,
+    warnings
+  );
+  const routes = leaveOutLowestPriority(
+    rebalanceDays(
+      clusters.map((cluster, index) => routeDay(cluster, index)),
+      pace,
+      transportationMode,
+      anchors,
+      routeDay
+    ),
+    pace,
+    transportationMode,
+    anchors,
+    routeDay,
+    warnings,
+    leftOut
+  );
+
+  return routes.map((route, index) => {
+    const { date, start, end, hotels: dayHotels } = anchors[index];
+    const schedule = scheduleRoute(route, start, timingFor(index));
+    const last = route[route.length - 1];
+    const travelToEnd = end && last ? travelTimeBetween(last, end, transportationMode) : 0;
+    const overrun = getOverrun(schedule, timingFor(index).settings, travelToEnd);
+    if (overrun > 0) {
+      warnings[index].push(`The day runs ${overrun} min past its planned end time.`);
+    }
+
+    route.forEach((stop, position) => {
+      if (hasPinnedPosition(stop) && stop.pinned_position !== position) {
+        warnings[index].push(
+          `"${stop.name}" could not be kept at position ${stop.pinned_position! + 1}; another pinned stop already holds it or the day has fewer stops.`
+        );
+      }
+      const issue = schedule[position].issue;
+      if (issue && isOpenOn(stop.opening_hours, date)) {
+        warnings[index].push(`"${stop.name}": ${issue.charAt(0).toLowerCase()}${issue.slice(1)}.`);
+      }
+    });
+
+    return {
+      date,
+      locations: [...route, ...dayHotels],
+      ...summarizeRoute(route, pace, start, end, transportationMode),
+      totalDistance: measureRoute(route, start, end).totalDistance,
+      timeBudget: budget,
+      schedule,
+      warnings: warnings[index],
+      leftOut: leftOut[index],
+    };
+  });
+}
+
+function formatHours(minutes: number): string {
+  return `${Math.round((minutes / 60) * 10) / 10}h`;
+}
@@ -0,0 +1,197 @@
+import { TransportMode } from '../types/trip';
+
+export interface BaseLocation {
+  name: string;
+  description: string;
+  dayIndex: number;
+  address: string;
+  isStartingPoint: boolean;
+  isHotel: boolean;
+}
+
+// Fields specific to attractions (non-hotels)
+export interface AttractionLocation extends BaseLocation {
+  isHotel: false;
+  estimatedDuration: number;
+  bestTimeToVisit: string;
+  travelTimeToNext: number | null;
+  transportModeToNext?: TransportMode;
+}
+
+// Fields specific to hotels
+export interface HotelLocation extends BaseLocation {
+  isHotel: true;
+  priceTier?: number;    // 1 ($) to 4 ($$$$)
+  amenities?: string[];
+  estimatedDuration?: never;  // Explicitly prevent these fields for hotels
+  bestTimeToVisit?: never;
+  travelTimeToNext?: never;
+  transportModeToNext?: never;
+}
+
+// Combined type that represents either a hotel or attraction
+export type Location = AttractionLocation | HotelLocation;
+
+export interface ValidationIssue {
+  index: number | null;  // Item the issue is about, null for the response as a whole
+  field: string | null;
+  message: string;
+}
+
+export type ValidationResult =
+  | { ok: true; locations: Location[] }
+  | { ok: false; issues: ValidationIssue[] };
+
+const TRANSPORT_MODES: TransportMode[] = ['walk', 'transit', 'drive', 'bike'];
+const TIMING_FIELDS = ['estimatedDuration', 'bestTimeToVisit', 'travelTimeToNext', 'transportModeToNext'] as const;
+
+// Gemini response schema (OpenAPI subset) matching `Location`. Timing fields
+// are optional here because hotels must leave them out; `validateItinerary`
+// enforces them for attractions.
+export const ITINERARY_RESPONSE_SCHEMA = {
+  type: 'ARRAY',
+  items: {
+    type: 'OBJECT',
+    properties: {
+      name: { type: 'STRING' },
+      address: { type: 'STRING' },
+      description: { type: 'STRING' },
+      estimatedDuration: { type: 'INTEGER' },
+      travelTimeToNext: { type: 'INTEGER' },
+      transportModeToNext: { type: 'STRING', enum: TRANSPORT_MODES },
+      bestTimeToVisit: { type: 'STRING' },
+      dayIndex: { type: 'INTEGER' },
+      isStartingPoint: { type: 'BOOLEAN' },
+      isHotel: { type: 'BOOLEAN' },
+      priceTier: { type: 'INTEGER' },
+      amenities: { type: 'ARRAY', items: { type: 'STRING' } },
+    },
+    required: ['name', 'address', 'description', 'dayIndex', 'isStartingPoint', 'isHotel'],
+    propertyOrdering: [
+      'name', 'address', 'description', 'estimatedDuration', 'travelTimeToNext',
+      'transportModeToNext', 'bestTimeToVisit', 'dayIndex', 'isStartingPoint', 'isHotel',
+      'priceTier', 'amenities',
+    ],
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value);
+
+export const stripHotelPrefix = (name: string) => name.replace(/^\s*\[hotel\]\s*/i, '');
+
+// Checks a parsed response against `Location`, collecting every problem
+// rather than stopping at the first so one follow-up can fix them all.
+// Durations and travel times are clamped to sane bounds rather than rejected.
+export function validateItinerary(data: unknown, duration: number): ValidationResult {
+  if (!Array.isArray(data)) {
+    return { ok: false, issues: [{ index: null, field: null, message: 'The response must be a JSON array of locations' }] };
+  }
+  if (data.length === 0) {
+    return { ok: false, issues: [{ index: null, field: null, message: 'The array must contain at least one location' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const locations: Location[] = [];
+
+  data.forEach((item, index) => {
+    const issue = (field: string | null, message: string) => issues.push({ index, field, message });
+
+    if (!isRecord(item)) {
+      issue(null, 'must be an object');
+      return;
+    }
+
+    if (!isNonEmptyString(item.name)) issue('name', 'must be a non-empty string');
+    if (!isNonEmptyString(item.address)) issue('address', 'must be a non-empty string');
+    if (typeof item.description !== 'string') issue('description', 'must be a string');
+    if (!isInteger(item.dayIndex) || item.dayIndex < 0 || item.dayIndex >= duration) {
+      issue('dayIndex', `must be an integer from 0 to ${duration - 1}`);
+    }
+    if (typeof item.isStartingPoint !== 'boolean') issue('isStartingPoint', 'must be a boolean');
+    if (typeof item.isHotel !== 'boolean') issue('isHotel', 'must be a boolean');
+
+    const hasHotelPrefix = isNonEmptyString(item.name) && item.name.trim().toLowerCase().startsWith('[hotel]');
+    if (typeof item.isHotel === 'boolean' && item.isHotel !== hasHotelPrefix) {
+      issue('isHotel', item.isHotel
+        ? 'is true but the name does not start with "[HOTEL]"'
+        : 'is false but the name starts with "[HOTEL]"');
+    }
+
+    if (!item.isHotel) {
+      if (!isInteger(item.estimatedDuration) || item.estimatedDuration <= 0) {
+        issue('estimatedDuration', 'must be a positive whole number of minutes');
+      }
+      if (!isInteger(item.travelTimeToNext) || item.travelTimeToNext < 0) {
+        issue('travelTimeToNext', 'must be a whole number of minutes, 0 or more');
+      }
+      if (typeof item.bestTimeToVisit !== 'string') {
+        issue('bestTimeToVisit', 'must be a string');
+      }
+      if (item.transportModeToNext !== undefined && !TRANSPORT_MODES.includes(item.transportModeToNext as TransportMode)) {
+        issue('transportModeToNext', `must be one of ${TRANSPORT_MODES.join(', ')} or left out`);
+      }
+    } else {
+      if (item.priceTier !== undefined && (!isInteger(item.priceTier) || item.priceTier < 1 || item.priceTier > 4)) {
+        issue('priceTier', 'must be a whole number from 1 ($) to 4 ($$$$) or left out');
+      }
+      if (item.amenities !== undefined &&
+          (!Array.isArray(item.amenities) || !item.amenities.every(isNonEmptyString))) {
+        issue('amenities', 'must be a list of non-empty strings or left out');
+      }
+    }
+
+    if (issues.some(existing => existing.index === index)) return;
+
+    const base: BaseLocation = {
+      name: (item.name as string).trim(),
+      description: (item.description as string).trim(),
+      dayIndex: item.dayIndex as number,
+      address: (item.address as string).trim(),
+      isStartingPoint: item.isStartingPoint as boolean,
+      isHotel: item.isHotel as boolean,
+    };
+
+    if (base.isHotel) {
+      if (TIMING_FIELDS.some(field => item[field] !== undefined)) {
+        console.warn(`Hotel "${base.name}" should not have timing fields. Removing them.`);
+      }
+      locations.push({
+        ...base,
+        isHotel: true,
+        priceTier: item.priceTier as number | undefined,
+        amenities: (item.amenities as string[] | undefined)?.map(amenity => amenity.trim()),
+      });
+      return;
+    }
+
+    locations.push({
+      ...base,
+      isHotel: false,
+      // Keep within reasonable bounds (30min-8hrs visits, 5min-3hrs travel)
+      estimatedDuration: Math.max(30, Math.min(480, item.estimatedDuration as number)),
+      bestTimeToVisit: (item.bestTimeToVisit as string).trim(),
+      travelTimeToNext: Math.max(5, Math.min(180, item.travelTimeToNext as number)),
+      transportModeToNext: item.transportModeToNext as TransportMode | undefined,
+    });
+  });
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, locations };
+}
+
+export function formatValidationIssues(issues: ValidationIssue[], data?: unknown): string {
+  return issues
+    .map(({ index, field, message }) => {
+      if (index === null) return `- ${message}`;
+      const item = Array.isArray(data) && isRecord(data[index]) ? data[index] : null;
+      const name = item && isNonEmptyString(item.name) ? ` ("${item.name}")` : '';
+      return `- Item ${index}${name}${field ? `, field "${field}"` : ''}: ${message}`;
+    })
+    .join('\n');
+}
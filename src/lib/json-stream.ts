@@ -0,0 +1,49 @@
+// Pulls complete objects out of a top-level JSON array while its text is
+// still streaming in, so each one can be used before the array is finished.
+// Objects that don't parse are skipped; the full response is validated once
+// it has all arrived.
+export function createJsonArrayStreamParser() {
+  let buffer = '';
+  let scanned = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  return {
+    push(chunk: string): unknown[] {
+      buffer += chunk;
+      const items: unknown[] = [];
+
+      for (; scanned < buffer.length; scanned++) {
+        const char = buffer[scanned];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === '\\') escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === '{' || char === '[') {
+          depth++;
+          if (char === '{' && depth === 2) objectStart = scanned;
+        } else if (char === '}' || char === ']') {
+          if (char === '}' && depth === 2 && objectStart >= 0) {
+            try {
+              items.push(JSON.parse(buffer.slice(objectStart, scanned + 1)));
+            } catch {
+              // Left for the final validation to report
+            }
+            objectStart = -1;
+          }
+          depth--;
+        }
+      }
+
+      return items;
+    },
+  };
+}
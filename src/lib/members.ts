@@ -0,0 +1,76 @@
+import { TripMember, TripRole } from '../types/trip';
+import { supabase } from './supabase';
+
+export const ROLE_LABELS: Record<TripRole, string> = {
+  viewer: 'Can view',
+  editor: 'Can edit',
+  owner: 'Owner',
+};
+
+// Columns of a trip_members row
+export interface TripMemberRow {
+  id: string;
+  trip_id: string;
+  email: string;
+  user_id: string | null;
+  role: TripRole;
+}
+
+export function toTripMember(row: TripMemberRow): TripMember {
+  return {
+    id: row.id,
+    email: row.email,
+    userId: row.user_id,
+    role: row.role,
+  };
+}
+
+export function canEdit(role: TripRole): boolean {
+  return role === 'editor' || role === 'owner';
+}
+
+// The signed-in user's role from a trip's members. The trip's creator is an
+// owner even before their membership row exists.
+export function getRole(
+  members: { role: TripRole; userId: string | null }[],
+  userId: string,
+  creatorId: string
+): TripRole {
+  const own = members.filter(member => member.userId === userId).map(member => member.role);
+  if (own.includes('owner') || userId === creatorId) return 'owner';
+  if (own.includes('editor')) return 'editor';
+  return 'viewer';
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Problems with an invite as entered, or null when it can be sent
+export function validateInvite(email: string, members: TripMember[]): string | null {
+  const normalized = email.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(normalized)) return 'Please enter a valid email address';
+  if (members.some(member => member.email === normalized)) return `${normalized} is already on this trip`;
+  return null;
+}
+
+// Adds someone through the invite-member Edge Function, which also emails a
+// sign-up invite to people who don't have an account yet
+export async function inviteMember(tripId: string, email: string, role: TripRole): Promise<TripMember> {
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/invite-member`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: anonKey,
+      Authorization: `Bearer ${session?.access_token ?? anonKey}`,
+    },
+    body: JSON.stringify({ tripId, email, role, redirectTo: `${window.location.origin}/trip/${tripId}` }),
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error?.message || 'Failed to send the invite');
+  }
+  return toTripMember(body.member);
+}
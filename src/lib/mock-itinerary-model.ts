@@ -0,0 +1,277 @@
+import type { EditRequest, ItineraryModel, ItineraryRequest, RegenerationScope } from './itinerary-model';
+
+interface FixtureStop {
+  name: string;
+  address: string;
+  description: string;
+  estimatedDuration: number;
+  bestTimeToVisit: string;
+}
+
+const STOPS_PER_DAY = 3;
+const FIXTURE_TRAVEL_TIME = 20;
+
+const FIXTURE_STOPS: FixtureStop[] = [
+  {
+    name: 'Louvre Museum',
+    address: 'Rue de Rivoli, 75001 Paris, France',
+    description: 'World-famous art museum, home to the Mona Lisa.',
+    estimatedDuration: 210,
+    bestTimeToVisit: 'morning',
+  },
+  {
+    name: 'Tuileries Garden',
+    address: 'Place de la Concorde, 75001 Paris, France',
+    description: 'Formal gardens between the Louvre and Place de la Concorde.',
+    estimatedDuration: 60,
+    bestTimeToVisit: 'afternoon',
+  },
+  {
+    name: 'Musée d\'Orsay',
+    address: '1 Rue de la Légion d\'Honneur, 75007 Paris, France',
+    description: 'Impressionist masterpieces in a former railway station.',
+    estimatedDuration: 150,
+    bestTimeToVisit: 'morning',
+  },
+  {
+    name: 'Eiffel Tower',
+    address: 'Champ de Mars, 5 Av. Anatole France, 75007 Paris, France',
+    description: 'Iconic iron tower with views over the city.',
+    estimatedDuration: 120,
+    bestTimeToVisit: 'evening',
+  },
+  {
+    name: 'Notre-Dame Cathedral',
+    address: '6 Parvis Notre-Dame - Pl. Jean-Paul II, 75004 Paris, France',
+    description: 'Gothic cathedral on the Île de la Cité.',
+    estimatedDuration: 90,
+    bestTimeToVisit: 'morning',
+  },
+  {
+    name: 'Sainte-Chapelle',
+    address: '10 Bd du Palais, 75001 Paris, France',
+    description: 'Royal chapel known for its stained-glass windows.',
+    estimatedDuration: 60,
+    bestTimeToVisit: 'afternoon',
+  },
+  {
+    name: 'Sacré-Cœur Basilica',
+    address: '35 Rue du Chevalier de la Barre, 75018 Paris, France',
+    description: 'Hilltop basilica overlooking Montmartre.',
+    estimatedDuration: 90,
+    bestTimeToVisit: 'morning',
+  },
+  {
+    name: 'Musée de l\'Orangerie',
+    address: 'Jardin des Tuileries, 75001 Paris, France',
+    description: 'Monet\'s Water Lilies in purpose-built oval rooms.',
+    estimatedDuration: 90,
+    bestTimeToVisit: 'afternoon',
+  },
+  {
+    name: 'Luxembourg Gardens',
+    address: '75006 Paris, France',
+    description: 'Palace gardens with fountains and tree-lined paths.',
+    estimatedDuration: 60,
+    bestTimeToVisit: 'afternoon',
+  },
+];
+
+const FIXTURE_HOTELS = [
+  {
+    name: '[HOTEL] Hôtel du Louvre',
+    address: 'Pl. André Malraux, 75001 Paris, France',
+    description: 'Steps from the Louvre and Palais-Royal.',
+    priceTier: 3,
+    amenities: ['Free WiFi', 'Restaurant', 'Bar'],
+  },
+  {
+    name: '[HOTEL] Hôtel Le Six',
+    address: '14 Rue Stanislas, 75006 Paris, France',
+    description: 'Quiet base near the Luxembourg Gardens.',
+    priceTier: 2,
+    amenities: ['Free WiFi', 'Spa', 'Breakfast'],
+  },
+];
+
+const attraction = (stop: FixtureStop, dayIndex: number, isStartingPoint = false) => ({
+  ...stop,
+  travelTimeToNext: FIXTURE_TRAVEL_TIME,
+  dayIndex,
+  isStartingPoint,
+  isHotel: false,
+});
+
+const hotel = (fixture: typeof FIXTURE_HOTELS[number], dayIndex: number) => ({
+  ...fixture,
+  dayIndex,
+  isStartingPoint: false,
+  isHotel: true,
+});
+
+const placeStop = (name: string): FixtureStop => ({
+  name,
+  address: name,
+  description: `${name} (from your must-visit list).`,
+  estimatedDuration: 120,
+  bestTimeToVisit: 'morning',
+});
+
+// Builds the same itinerary for the same request, without any network calls:
+// must-visit places on their preferred days (or spread round-robin), padded
+// with fixture stops, a fixture hotel each night that isn't booked already,
+// and the start and end points.
+function buildItinerary({ startPoint, endPoint, duration, mustVisitPlaces, bookedStays }: ItineraryRequest) {
+  const days: FixtureStop[][] = Array.from({ length: duration }, () => []);
+
+  const flexible = mustVisitPlaces.filter(place => place.preferredDay === null || place.preferredDay >= duration);
+  mustVisitPlaces.forEach(place => {
+    if (place.preferredDay !== null && place.preferredDay < duration) {
+      days[place.preferredDay].push(placeStop(place.name));
+    }
+  });
+  flexible.forEach((place, index) => days[index % duration].push(placeStop(place.name)));
+
+  let fixtureIndex = 0;
+  days.forEach(stops => {
+    while (stops.length < STOPS_PER_DAY) {
+      stops.push(FIXTURE_STOPS[fixtureIndex++ % FIXTURE_STOPS.length]);
+    }
+  });
+
+  return days.flatMap((stops, dayIndex) => {
+    const entries: object[] = stops.map(stop => attraction(stop, dayIndex));
+
+    if (dayIndex === 0) {
+      entries.unshift(attraction({
+        name: startPoint,
+        address: startPoint,
+        description: 'Starting point of the journey.',
+        estimatedDuration: 30,
+        bestTimeToVisit: 'morning',
+      }, 0, true));
+    }
+
+    if (dayIndex < duration - 1) {
+      if (!bookedStays[dayIndex]) entries.push(hotel(FIXTURE_HOTELS[dayIndex % FIXTURE_HOTELS.length], dayIndex));
+    } else {
+      entries.push(attraction({
+        name: endPoint,
+        address: endPoint,
+        description: 'End point of the journey.',
+        estimatedDuration: 30,
+        bestTimeToVisit: 'evening',
+      }, dayIndex));
+    }
+
+    return entries;
+  });
+}
+
+// Answers a request to re-plan one day or one stop from the same fixtures,
+// skipping anything already planned
+function buildScopedItinerary({ endPoint, duration, mustVisitPlaces }: ItineraryRequest, scope: RegenerationScope) {
+  const { dayIndex } = scope;
+  const taken = new Set(
+    [...scope.plannedElsewhere, ...(scope.kind === 'stop' ? scope.dayStops.map(stop => stop.name) : [])]
+      .map(name => name.toLowerCase())
+  );
+  const isFree = (fixture: { name: string }) => !taken.has(fixture.name.toLowerCase());
+
+  if (scope.kind === 'stop') {
+    const isOther = (fixture: { name: string }) => fixture.name !== scope.stop.name;
+    return scope.stop.isHotel
+      ? [hotel(FIXTURE_HOTELS.find(isFree) ?? FIXTURE_HOTELS.find(isOther)!, dayIndex)]
+      : [attraction(FIXTURE_STOPS.find(isFree) ?? FIXTURE_STOPS.find(isOther)!, dayIndex)];
+  }
+
+  const stops = [
+    ...scope.fixedStops.map(stop => ({ ...placeStop(stop.name), address: stop.address })),
+    ...mustVisitPlaces.map(place => placeStop(place.name)),
+  ];
+  FIXTURE_STOPS.filter(isFree).forEach(fixture => {
+    if (stops.length < STOPS_PER_DAY) stops.push(fixture);
+  });
+
+  const entries: object[] = stops.map(stop => attraction(stop, dayIndex));
+  if (dayIndex < duration - 1) {
+    if (!scope.endAt) entries.push(hotel(FIXTURE_HOTELS[dayIndex % FIXTURE_HOTELS.length], dayIndex));
+  } else {
+    entries.push(attraction({
+      name: endPoint,
+      address: endPoint,
+      description: 'End point of the journey.',
+      estimatedDuration: 30,
+      bestTimeToVisit: 'evening',
+    }, dayIndex));
+  }
+  return entries;
+}
+
+// Understands just enough of an edit instruction for demos: "remove <stop>",
+// "move <stop> to day <n>" and "make day <n> lighter", matching stops by name
+function buildEditProposal({ instruction, stops, duration }: EditRequest) {
+  const text = instruction.toLowerCase();
+  const mentioned = stops.filter(stop => text.includes(stop.name.toLowerCase()));
+  const dayMatch = text.match(/day\s+(\d+)/);
+  const dayIndex = dayMatch ? Number(dayMatch[1]) - 1 : null;
+  const validDay = dayIndex !== null && dayIndex >= 0 && dayIndex < duration;
+
+  if (/\b(remove|drop|skip|delete)\b/.test(text) && mentioned.length > 0) {
+    return {
+      reply: `Removed ${mentioned.map(stop => stop.name).join(', ')}.`,
+      edits: mentioned.map(stop => ({ op: 'remove', stop: stop.ref })),
+    };
+  }
+
+  if (/\bmove\b/.test(text) && mentioned.length > 0 && validDay) {
+    const arrivalTime = text.includes('morning') ? '09:00' : text.includes('afternoon') ? '14:00' : undefined;
+    return {
+      reply: `Moved ${mentioned[0].name} to day ${dayIndex + 1}.`,
+      edits: [{ op: 'move', stop: mentioned[0].ref, dayIndex, position: arrivalTime === '09:00' ? 0 : undefined, arrivalTime }],
+    };
+  }
+
+  if (/\blighter\b/.test(text) && validDay) {
+    const longest = stops
+      .filter(stop => stop.dayIndex === dayIndex && !stop.pinned && stop.kind !== 'hotel')
+      .sort((a, b) => (b.estimatedDuration ?? 0) - (a.estimatedDuration ?? 0))[0];
+    if (longest) {
+      return {
+        reply: `Dropped ${longest.name}, the longest visit on day ${dayIndex + 1}.`,
+        edits: [{ op: 'remove', stop: longest.ref }],
+      };
+    }
+  }
+
+  return {
+    reply: 'The offline model only understands "remove <stop>", "move <stop> to day <n>" and "make day <n> lighter".',
+    edits: [],
+  };
+}
+
+const CHUNK_SIZE = 80;
+
+// Offline stand-in for a real model, for development and demos. Streams the
+// answer out over about `latency` ms so loading states and progressive
+// rendering are visible.
+export function createMockModel({ latency = 3000 }: { latency?: number } = {}): ItineraryModel {
+  return {
+    name: 'mock',
+    async complete(_turns, request, { signal, onText } = {}) {
+      const text = JSON.stringify(
+        request.kind === 'edit'
+          ? buildEditProposal(request)
+          : request.scope ? buildScopedItinerary(request, request.scope) : buildItinerary(request)
+      );
+      const chunkCount = Math.ceil(text.length / CHUNK_SIZE);
+
+      for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+        await new Promise(resolve => setTimeout(resolve, latency / chunkCount));
+        signal?.throwIfAborted();
+        onText?.(text.slice(i, i + CHUNK_SIZE));
+      }
+      return text;
+    },
+  };
+}
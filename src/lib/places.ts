@@ -0,0 +1,69 @@
+import { OpeningHours } from '../types/trip';
+
+let placesService: google.maps.places.PlacesService | null = null;
+
+function getPlacesService(): google.maps.places.PlacesService {
+  if (!placesService) {
+    placesService = new google.maps.places.PlacesService(document.createElement('div'));
+  }
+  return placesService;
+}
+
+function formatPlacesTime(time: string): string {
+  return `${time.slice(0, 2)}:${time.slice(2, 4)}`;
+}
+
+// Converts Google's weekly periods into our per-weekday windows. Days without
+// a period are closed; split shifts collapse into one window from the first
+// opening to the last closing.
+export function toOpeningHours(periods: google.maps.places.PlaceOpeningHoursPeriod[]): OpeningHours {
+  // A single period without a close time means open around the clock
+  if (periods.length === 1 && !periods[0].close) {
+    return Object.fromEntries(
+      Array.from({ length: 7 }, (_, day) => [day, { open: '00:00', close: '24:00' }])
+    );
+  }
+
+  const hours: OpeningHours = Object.fromEntries(Array.from({ length: 7 }, (_, day) => [day, null]));
+  for (const period of periods) {
+    const open = formatPlacesTime(period.open.time);
+    const close = period.close ? formatPlacesTime(period.close.time) : '24:00';
+    const existing = hours[period.open.day];
+    hours[period.open.day] = existing
+      ? { open: existing.open < open ? existing.open : open, close: existing.close > close ? existing.close : close }
+      : { open, close };
+  }
+  return hours;
+}
+
+// Looks up a place by name and address and returns its weekly opening hours,
+// or null when Google has none for it.
+export function fetchOpeningHours(name: string, address: string): Promise<OpeningHours | null> {
+  const service = getPlacesService();
+
+  return new Promise((resolve, reject) => {
+    service.findPlaceFromQuery(
+      { query: `${name}, ${address}`, fields: ['place_id'] },
+      (results, status) => {
+        if (status === google.maps.places.PlacesServiceStatus.ZERO_RESULTS) {
+          resolve(null);
+          return;
+        }
+        const placeId = results?.[0]?.place_id;
+        if (status !== google.maps.places.PlacesServiceStatus.OK || !placeId) {
+          reject(new Error(`Place lookup failed for "${name}": ${status}`));
+          return;
+        }
+
+        service.getDetails({ placeId, fields: ['opening_hours'] }, (place, detailsStatus) => {
+          if (detailsStatus !== google.maps.places.PlacesServiceStatus.OK) {
+            reject(new Error(`Place details failed for "${name}": ${detailsStatus}`));
+            return;
+          }
+          const periods = place?.opening_hours?.periods;
+          resolve(periods && periods.length > 0 ? toOpeningHours(periods) : null);
+        });
+      }
+    );
+  });
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { DaySchedule } from '../types/trip';
+import { formatTime, getOpeningWindow, getOverrun, isClockTime, parseTime, scheduleStops } from './schedule';
+
+// A Monday
+const DATE = new Date(2025, 5, 2);
+
+const NO_MEALS: DaySchedule = { startTime: '09:00', endTime: '18:00', bufferMinutes: 0, lunch: null, dinner: null };
+
+describe('isClockTime', () => {
+  it('accepts zero-padded 24-hour times', () => {
+    expect(['00:00', '09:30', '23:59'].every(isClockTime)).toBe(true);
+  });
+
+  it('rejects anything looser', () => {
+    expect(['9:30', '24:00', '09:60', '09:30 am', '09:30:00', '', null, 930].some(isClockTime)).toBe(false);
+  });
+});
+
+describe('parseTime', () => {
+  it('reads minutes after midnight', () => {
+    expect(parseTime('09:30')).toBe(570);
+    expect(parseTime('9:05')).toBe(545);
+  });
+
+  it('allows a 24:00 close but nothing past it', () => {
+    expect(parseTime('24:00')).toBe(1440);
+    expect(parseTime('25:00')).toBeNull();
+    expect(parseTime('12:75')).toBeNull();
+    expect(parseTime('noon')).toBeNull();
+    expect(parseTime(undefined)).toBeNull();
+  });
+});
+
+describe('formatTime', () => {
+  it('wraps past midnight', () => {
+    expect(formatTime(570)).toBe('09:30');
+    expect(formatTime(1440 + 15)).toBe('00:15');
+  });
+});
+
+describe('getOpeningWindow', () => {
+  it('tells closed days from unknown hours', () => {
+    expect(getOpeningWindow({ 1: null }, DATE)).toBeNull();
+    expect(getOpeningWindow({ 2: { open: '09:00', close: '17:00' } }, DATE)).toBeUndefined();
+    expect(getOpeningWindow(null, DATE)).toBeUndefined();
+  });
+
+  it('runs a close before the open into the next day', () => {
+    expect(getOpeningWindow({ 1: { open: '18:00', close: '02:00' } }, DATE)).toEqual({ open: 1080, close: 1560 });
+  });
+});
+
+describe('scheduleStops', () => {
+  it('adds travel and the buffer between stops', () => {
+    const [first, second] = scheduleStops(
+      [{ duration: 60, travelTime: 15 }, { duration: 30, travelTime: 20 }],
+      DATE,
+      { ...NO_MEALS, bufferMinutes: 10 }
+    );
+    expect(first).toMatchObject({ arrival: 555, start: 555, departure: 615 });
+    expect(second).toMatchObject({ arrival: 645, start: 645, departure: 675 });
+  });
+
+  it('waits for a fixed start and flags one it can only miss', () => {
+    const [early, late] = scheduleStops(
+      [
+        { duration: 60, travelTime: 0, fixedStart: 600 },
+        { duration: 60, travelTime: 0, fixedStart: 630 },
+      ],
+      DATE,
+      NO_MEALS
+    );
+    expect(early).toMatchObject({ arrival: 540, start: 600, wait: 60, issue: null });
+    expect(late.start).toBe(660);
+    expect(late.issue).toBe("Can't start at 10:30; the earliest is 11:00");
+  });
+
+  it('waits for opening time and flags closed days', () => {
+    const [waiting, closed] = scheduleStops(
+      [
+        { duration: 60, travelTime: 0, openingHours: { 1: { open: '10:00', close: '17:00' } } },
+        { duration: 60, travelTime: 0, openingHours: { 1: null } },
+      ],
+      DATE,
+      NO_MEALS
+    );
+    expect(waiting).toMatchObject({ start: 600, wait: 60, issue: null });
+    expect(closed.issue).toBe('Closed on Mondays');
+  });
+
+  it('takes lunch after the first stop ending near its slot', () => {
+    const [morning, afternoon] = scheduleStops(
+      [{ duration: 180, travelTime: 0 }, { duration: 60, travelTime: 0 }],
+      DATE,
+      { ...NO_MEALS, lunch: { time: '12:30', duration: 60 } }
+    );
+    expect(morning.breaksAfter).toEqual([{ label: 'Lunch', start: 720, end: 780 }]);
+    expect(afternoon.arrival).toBe(780);
+  });
+});
+
+describe('getOverrun', () => {
+  it('counts the trip to where the day ends', () => {
+    const schedule = scheduleStops([{ duration: 510, travelTime: 0 }], DATE, NO_MEALS);
+    expect(getOverrun(schedule, NO_MEALS)).toBe(0);
+    expect(getOverrun(schedule, NO_MEALS, 45)).toBe(15);
+  });
+
+  it('is zero for an empty day', () => {
+    expect(getOverrun([], NO_MEALS, 120)).toBe(0);
+  });
+});
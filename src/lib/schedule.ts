@@ -0,0 +1,174 @@
+import { format } from 'date-fns';
+import { DaySchedule, OpeningHours } from '../types/trip';
+import type { DstShift } from './time-zone';
+
+export const DEFAULT_DAY_SCHEDULE: DaySchedule = {
+  startTime: '09:00',
+  endTime: '21:00',
+  bufferMinutes: 10,
+  lunch: { time: '12:30', duration: 60 },
+  dinner: { time: '19:00', duration: 90 },
+};
+
+// A meal is taken after the first stop that ends this close to its slot or later
+const MEAL_EARLY_MINUTES = 30;
+
+export interface ScheduleItem {
+  duration: number;     // minutes spent at the stop
+  travelTime: number;   // minutes from the previous stop or the day's start point
+  openingHours?: OpeningHours | null;
+  fixedStart?: number | null;  // The visit has to start at this time
+}
+
+export interface MealBreak {
+  label: string;
+  start: number;
+  end: number;
+}
+
+// All times are minutes after midnight of the day being scheduled
+export interface ScheduledStop {
+  travelTime: number;   // minutes on the way in, excluding the buffer
+  arrival: number;
+  start: number;        // arrival, or opening time when we get there early
+  departure: number;
+  wait: number;
+  issue: string | null;
+  breaksAfter: MealBreak[];
+}
+
+// A time of day as stop times are stored: zero-padded 24-hour "HH:mm", the
+// same as the database checks. parseTime is looser, for opening hours that
+// can close at 24:00.
+export function isClockTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01][0-9]|2[0-3]):[0-5][0-9]$/.test(value);
+}
+
+export function parseTime(value?: string | null): number | null {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatTime(minutes: number): string {
+  const normalized = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  return `${String(hours).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+}
+
+// Opening window for the weekday of `date`: `null` when closed that day,
+// `undefined` when we don't know the hours.
+export function getOpeningWindow(
+  hours: OpeningHours | null | undefined,
+  date: Date
+): { open: number; close: number } | null | undefined {
+  if (!hours) return undefined;
+
+  const window = hours[date.getDay()];
+  if (window === null) return null;
+  if (!window) return undefined;
+
+  const open = parseTime(window.open);
+  const close = parseTime(window.close);
+  if (open === null || close === null) return undefined;
+
+  return { open, close: close <= open ? close + 24 * 60 : close };
+}
+
+export function isOpenOn(hours: OpeningHours | null | undefined, date: Date): boolean {
+  return getOpeningWindow(hours, date) !== null;
+}
+
+// Walks the day from its start time, adding the buffer between stops, waiting
+// for venues that aren't open yet and for visits set to start later, slotting
+// in meal breaks and flagging visits that fall outside their opening window or
+// can't start at their set time. Times are wall-clock minutes, so on
+// a day the clocks change, anything running past the change jumps with them.
+export function scheduleStops(
+  items: ScheduleItem[],
+  date: Date,
+  settings: DaySchedule = DEFAULT_DAY_SCHEDULE,
+  dstShift: DstShift | null = null
+): ScheduledStop[] {
+  let clock = parseTime(settings.startTime) ?? parseTime(DEFAULT_DAY_SCHEDULE.startTime)!;
+  // Once past the change, times are on the new clock and can't cross it again
+  let shifted = !dstShift || clock >= dstShift.at;
+  const advance = (from: number, minutes: number) => {
+    const to = from + minutes;
+    if (shifted || !dstShift || from >= dstShift.at || to < dstShift.at) return to;
+    shifted = true;
+    return to + dstShift.shift;
+  };
+  const meals = [
+    settings.lunch && { label: 'Lunch', ...settings.lunch },
+    settings.dinner && { label: 'Dinner', ...settings.dinner },
+  ]
+    .filter((meal): meal is { label: string; time: string; duration: number } => Boolean(meal))
+    .map(meal => ({ label: meal.label, time: parseTime(meal.time) ?? 0, duration: meal.duration }))
+    .sort((a, b) => a.time - b.time);
+  let nextMeal = 0;
+
+  return items.map((item, index) => {
+    const arrival = advance(clock, item.travelTime + (index > 0 ? settings.bufferMinutes : 0));
+    const window = getOpeningWindow(item.openingHours, date);
+    const fixedStart = item.fixedStart ?? null;
+    let start = fixedStart !== null && arrival < fixedStart ? fixedStart : arrival;
+    let issue: string | null = null;
+
+    if (window === null) {
+      issue = `Closed on ${format(date, 'EEEE')}s`;
+    } else if (window) {
+      if (start < window.open) {
+        start = window.open;
+      }
+      if (start >= window.close) {
+        issue = `Arrives after closing time (${formatTime(window.close)})`;
+      } else if (start + item.duration > window.close) {
+        issue = `Closes at ${formatTime(window.close)}, before the visit ends`;
+      }
+    }
+    if (!issue && fixedStart !== null && start !== fixedStart) {
+      issue = `Can't start at ${formatTime(fixedStart)}; the earliest is ${formatTime(start)}`;
+    }
+
+    const departure = advance(start, item.duration);
+    clock = departure;
+
+    const breaksAfter: MealBreak[] = [];
+    while (nextMeal < meals.length && clock >= meals[nextMeal].time - MEAL_EARLY_MINUTES) {
+      const meal = meals[nextMeal++];
+      breaksAfter.push({ label: meal.label, start: clock, end: advance(clock, meal.duration) });
+      clock = advance(clock, meal.duration);
+    }
+
+    return { travelTime: item.travelTime, arrival, start, departure, wait: start - arrival, issue, breaksAfter };
+  });
+}
+
+// Minutes the scheduled day runs past its configured end time, counting the
+// trip from the last stop to where the day ends
+export function getOverrun(
+  stops: ScheduledStop[],
+  settings: DaySchedule = DEFAULT_DAY_SCHEDULE,
+  travelToEnd = 0
+): number {
+  const last = stops[stops.length - 1];
+  const endTime = parseTime(settings.endTime);
+  if (!last || endTime === null) return 0;
+
+  const dayEnd = last.breaksAfter.length > 0 ? last.breaksAfter[last.breaksAfter.length - 1].end : last.departure;
+  return Math.max(0, dayEnd + travelToEnd - endTime);
+}
+
+export function formatOpeningHours(hours: OpeningHours | null | undefined, date: Date): string | null {
+  if (!hours) return null;
+
+  const window = hours[date.getDay()];
+  if (window === null) return `Closed ${format(date, 'EEEE')}`;
+  if (!window) return null;
+  return `Open ${window.open}–${window.close}`;
+}
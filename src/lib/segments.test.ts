@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DaySchedule, TripSegment } from '../types/trip';
+import { applySegmentWindow, getDaySegments, validateSegment } from './segments';
+
+const segment = (mode: TripSegment['mode'], departureTime: Date, arrivalTime: Date): TripSegment => ({
+  id: `${mode}-${departureTime.getTime()}`,
+  mode,
+  carrier: '',
+  number: '',
+  departureStation: 'A',
+  arrivalStation: 'B',
+  departureTime,
+  arrivalTime,
+  departureTimeZone: null,
+  arrivalTimeZone: null,
+});
+
+const at = (date: number, hours: number, minutes = 0) => new Date(2025, 5, date, hours, minutes);
+
+const SCHEDULE: DaySchedule = {
+  startTime: '09:00',
+  endTime: '21:00',
+  bufferMinutes: 10,
+  lunch: { time: '12:30', duration: 60 },
+  dinner: { time: '19:00', duration: 90 },
+};
+
+describe('getDaySegments', () => {
+  it('bounds the day by the last arrival and the first departure', () => {
+    const early = segment('train', at(1, 22), at(2, 9));
+    const late = segment('train', at(1, 23), at(2, 11));
+    const leaving = segment('flight', at(2, 20), at(3, 1));
+    expect(getDaySegments([early, leaving, late], at(2, 0))).toEqual({ arriving: late, departing: leaving });
+  });
+});
+
+describe('applySegmentWindow', () => {
+  it('starts the day after arrival plus the station buffer and drops missed meals', () => {
+    const arriving = segment('train', at(2, 10), at(2, 13));
+    expect(applySegmentWindow(SCHEDULE, { arriving }, 120)).toMatchObject({
+      startTime: '13:30',
+      endTime: '21:00',
+      lunch: null,
+      dinner: SCHEDULE.dinner,
+    });
+  });
+
+  it('ends the day the airport buffer before a flight', () => {
+    const departing = segment('flight', at(2, 18), at(2, 21));
+    expect(applySegmentWindow(SCHEDULE, { departing }, 120)).toMatchObject({
+      startTime: '09:00',
+      endTime: '16:00',
+      lunch: SCHEDULE.lunch,
+      dinner: null,
+    });
+  });
+
+  it('plans the longer side of a transfer', () => {
+    const departing = segment('flight', at(2, 11), at(2, 15));
+    const arriving = segment('flight', at(2, 11), at(2, 15));
+    expect(applySegmentWindow(SCHEDULE, { arriving, departing }, 60)).toMatchObject({
+      startTime: '16:00',
+      endTime: '21:00',
+    });
+  });
+
+  it('leaves a day without segments alone', () => {
+    expect(applySegmentWindow(SCHEDULE, {}, 120)).toBe(SCHEDULE);
+  });
+});
+
+describe('validateSegment', () => {
+  it('needs both stations and valid times', () => {
+    expect(validateSegment({ ...segment('bus', at(2, 8), at(2, 9)), arrivalStation: ' ' })).toBe(
+      'Please enter where the journey leaves from and arrives'
+    );
+    expect(validateSegment(segment('bus', new Date(NaN), at(2, 9)))).toBe('Please enter the departure and arrival times');
+  });
+});
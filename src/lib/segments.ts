@@ -0,0 +1,158 @@
+import { format, isSameDay, parseISO } from 'date-fns';
+import { DaySchedule, SegmentMode, TripSegment } from '../types/trip';
+import { formatTime, parseTime } from './schedule';
+import { convertWallTime } from './time-zone';
+
+export const DEFAULT_AIRPORT_BUFFER_MINUTES = 120;
+
+// Stations need less slack than airports: no check-in or security
+const STATION_BUFFER_MINUTES = 30;
+
+export const SEGMENT_MODE_LABELS: Record<SegmentMode, string> = {
+  flight: 'Flight',
+  train: 'Train',
+  bus: 'Bus',
+};
+
+// Columns of a trip_segments row
+export interface TripSegmentRow {
+  id: string;
+  trip_id: string;
+  mode: SegmentMode;
+  carrier: string;
+  number: string;
+  departure_station: string;
+  arrival_station: string;
+  departure_time: string;  // Local timestamp, no zone
+  arrival_time: string;
+  departure_time_zone: string | null;
+  arrival_time_zone: string | null;
+}
+
+// Times are read as wall-clock times, not converted from UTC
+export function toTripSegment(row: TripSegmentRow): TripSegment {
+  return {
+    id: row.id,
+    mode: row.mode,
+    carrier: row.carrier,
+    number: row.number,
+    departureStation: row.departure_station,
+    arrivalStation: row.arrival_station,
+    departureTime: parseISO(row.departure_time),
+    arrivalTime: parseISO(row.arrival_time),
+    departureTimeZone: row.departure_time_zone,
+    arrivalTimeZone: row.arrival_time_zone,
+  };
+}
+
+export function toTripSegmentRow(segment: TripSegment, tripId: string): TripSegmentRow {
+  return {
+    id: segment.id,
+    trip_id: tripId,
+    mode: segment.mode,
+    carrier: segment.carrier.trim(),
+    number: segment.number.trim(),
+    departure_station: segment.departureStation.trim(),
+    arrival_station: segment.arrivalStation.trim(),
+    departure_time: format(segment.departureTime, "yyyy-MM-dd'T'HH:mm"),
+    arrival_time: format(segment.arrivalTime, "yyyy-MM-dd'T'HH:mm"),
+    departure_time_zone: segment.departureTimeZone || null,
+    arrival_time_zone: segment.arrivalTimeZone || null,
+  };
+}
+
+// "Air France AF1234", or whichever part was filled in
+export function formatSegment(segment: TripSegment): string {
+  return [segment.carrier, segment.number].filter(Boolean).join(' ') || SEGMENT_MODE_LABELS[segment.mode];
+}
+
+export function getSegmentBuffer(segment: TripSegment, airportBufferMinutes: number): number {
+  return segment.mode === 'flight' ? airportBufferMinutes : STATION_BUFFER_MINUTES;
+}
+
+// Problems with a segment as entered, or null when it can be saved
+export function validateSegment(segment: TripSegment): string | null {
+  if (!segment.departureStation.trim() || !segment.arrivalStation.trim()) {
+    return 'Please enter where the journey leaves from and arrives';
+  }
+  if (isNaN(segment.departureTime.getTime()) || isNaN(segment.arrivalTime.getTime())) {
+    return 'Please enter the departure and arrival times';
+  }
+  return null;
+}
+
+// The segment with both times read off `zone`'s clock, for planning days there.
+// Times without a zone of their own are already on it.
+export function toTimeZone(segment: TripSegment, zone: string): TripSegment {
+  return {
+    ...segment,
+    departureTime: segment.departureTimeZone
+      ? convertWallTime(segment.departureTime, segment.departureTimeZone, zone)
+      : segment.departureTime,
+    arrivalTime: segment.arrivalTimeZone
+      ? convertWallTime(segment.arrivalTime, segment.arrivalTimeZone, zone)
+      : segment.arrivalTime,
+    departureTimeZone: zone,
+    arrivalTimeZone: zone,
+  };
+}
+
+// The segments that land and leave on a given day. When there are several,
+// the last arrival and the first departure are the ones that bound the day.
+export function getDaySegments(segments: TripSegment[], date: Date): { arriving?: TripSegment; departing?: TripSegment } {
+  const arriving = segments
+    .filter(segment => isSameDay(segment.arrivalTime, date))
+    .sort((a, b) => b.arrivalTime.getTime() - a.arrivalTime.getTime())[0];
+  const departing = segments
+    .filter(segment => isSameDay(segment.departureTime, date))
+    .sort((a, b) => a.departureTime.getTime() - b.departureTime.getTime())[0];
+  return { arriving, departing };
+}
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+// Narrows a day's schedule to the time left around its arrival and departure
+// (from `getDaySegments`), dropping meals that fall outside what's left
+export function applySegmentWindow(
+  schedule: DaySchedule,
+  { arriving, departing }: { arriving?: TripSegment; departing?: TripSegment },
+  airportBufferMinutes: number
+): DaySchedule {
+  if (!arriving && !departing) return schedule;
+
+  const dayStart = parseTime(schedule.startTime) ?? 0;
+  const dayEnd = parseTime(schedule.endTime) ?? 24 * 60;
+  const afterArrival = arriving
+    ? Math.max(dayStart, minutesOfDay(arriving.arrivalTime) + getSegmentBuffer(arriving, airportBufferMinutes))
+    : dayStart;
+  const beforeDeparture = departing
+    ? Math.min(dayEnd, minutesOfDay(departing.departureTime) - getSegmentBuffer(departing, airportBufferMinutes))
+    : dayEnd;
+
+  let start = afterArrival;
+  let end = beforeDeparture;
+  // Leaving before arriving is a transfer day: plan whichever side of the
+  // journey has more time
+  if (arriving && departing && arriving.arrivalTime > departing.departureTime) {
+    const morning = beforeDeparture - dayStart;
+    const evening = dayEnd - afterArrival;
+    [start, end] = morning >= evening ? [dayStart, beforeDeparture] : [afterArrival, dayEnd];
+  }
+  // A late arrival or an early departure leaves no time at all
+  start = Math.min(start, 24 * 60 - 1);
+  end = Math.max(start, Math.min(end, 24 * 60 - 1));
+
+  const fits = (meal: DaySchedule['lunch']) => {
+    if (!meal) return null;
+    const time = parseTime(meal.time);
+    return time !== null && time >= start && time + meal.duration <= end ? meal : null;
+  };
+
+  return {
+    ...schedule,
+    startTime: formatTime(start),
+    endTime: formatTime(end),
+    lunch: fits(schedule.lunch),
+    dinner: fits(schedule.dinner),
+  };
+}
@@ -0,0 +1,77 @@
+import { addDays } from 'date-fns';
+import { Trip, TripSegment, TripShareLink, TripStay } from '../types/trip';
+import type { Location } from '../components/ItineraryBuilder';
+import { supabase } from './supabase';
+import { LocationRow, TripRow, toLocation, toTrip } from './trips';
+import { TripStayRow, toTripStay } from './stays';
+import { TripSegmentRow, toTripSegment } from './segments';
+
+// Columns of a trip_share_links row
+export interface TripShareLinkRow {
+  id: string;
+  trip_id: string;
+  token: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export function toTripShareLink(row: TripShareLinkRow): TripShareLink {
+  return {
+    id: row.id,
+    token: row.token,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// How long a new link works for, in days; null never expires
+export const SHARE_LINK_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+];
+
+export function getShareLinkExpiry(days: number | null, now = new Date()): Date | null {
+  return days === null ? null : addDays(now, days);
+}
+
+export function isShareLinkActive(link: TripShareLink, now = new Date()): boolean {
+  return !link.revokedAt && (!link.expiresAt || link.expiresAt > now);
+}
+
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+export interface SharedTrip {
+  trip: Trip;
+  locations: Location[];
+  stays: TripStay[];
+  segments: TripSegment[];
+}
+
+// The trip behind a share link, or null when the link is unknown, revoked or
+// expired. Works without signing in.
+export async function fetchSharedTrip(token: string): Promise<SharedTrip | null> {
+  const { data, error } = await supabase.rpc('get_shared_trip', { share_token: token });
+
+  if (error) throw error;
+  if (!data) return null;
+
+  // Who created the trip and confirmation numbers aren't shared
+  const shared = data as {
+    trip: Omit<TripRow, 'user_id'>;
+    locations: LocationRow[];
+    stays: Omit<TripStayRow, 'confirmation_number'>[];
+    segments: TripSegmentRow[];
+  };
+  return {
+    trip: toTrip({ ...shared.trip, user_id: '' }, 'viewer'),
+    locations: shared.locations.map(toLocation),
+    stays: shared.stays.map(stay => toTripStay({ ...stay, confirmation_number: null })),
+    segments: shared.segments.map(toTripSegment),
+  };
+}
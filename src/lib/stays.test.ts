@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { TripStay } from '../types/trip';
+import { getStayNights, getStaysByNight, toTripStay, toTripStayRow, validateStay } from './stays';
+
+const stay = (id: string, checkIn: Date, checkOut: Date): TripStay => ({
+  id,
+  name: id,
+  address: '',
+  latitude: 0,
+  longitude: 0,
+  checkIn,
+  checkOut,
+  confirmationNumber: null,
+  timeZone: null,
+});
+
+const START = new Date(2025, 5, 2);
+const day = (offset: number) => new Date(2025, 5, 2 + offset);
+
+describe('getStaysByNight', () => {
+  it('covers the nights from check-in up to check-out', () => {
+    const hotel = stay('hotel', day(1), day(3));
+    expect(getStaysByNight([hotel], START, 4)).toEqual([undefined, hotel, hotel, undefined]);
+  });
+
+  it('lets the later check-in win an overlap', () => {
+    const first = stay('first', day(0), day(3));
+    const second = stay('second', day(1), day(2));
+    expect(getStaysByNight([second, first], START, 3)).toEqual([first, second, first]);
+  });
+});
+
+describe('validateStay', () => {
+  it('needs at least one night', () => {
+    expect(validateStay(stay('hotel', day(1), day(1)), [])).toBe('Check-out must be after check-in');
+  });
+
+  it('rejects overlaps but not back-to-back stays', () => {
+    const booked = stay('booked', day(0), day(2));
+    expect(validateStay(stay('next', day(2), day(4)), [booked])).toBeNull();
+    expect(validateStay(stay('next', day(1), day(4)), [booked])).toBe('These dates overlap your stay at booked');
+  });
+});
+
+describe('toTripStayRow', () => {
+  it('stores calendar days and reads them back as local dates', () => {
+    const row = toTripStayRow({ ...stay('hotel', day(0), day(2)), name: ' Hotel ' }, 'trip');
+    expect(row).toMatchObject({ name: 'Hotel', address: 'Hotel', check_in: '2025-06-02', check_out: '2025-06-04' });
+    expect(getStayNights(toTripStay(row))).toBe(2);
+    expect(toTripStay(row).checkIn).toEqual(START);
+  });
+});
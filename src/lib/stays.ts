@@ -0,0 +1,73 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { TripStay } from '../types/trip';
+
+// Columns of a trip_stays row
+export interface TripStayRow {
+  id: string;
+  trip_id: string;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  check_in: string;   // yyyy-MM-dd
+  check_out: string;  // yyyy-MM-dd
+  confirmation_number: string | null;
+  time_zone: string | null;
+}
+
+// Dates are read as local calendar days, not UTC midnight
+export function toTripStay(row: TripStayRow): TripStay {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    checkIn: parseISO(row.check_in),
+    checkOut: parseISO(row.check_out),
+    confirmationNumber: row.confirmation_number,
+    timeZone: row.time_zone,
+  };
+}
+
+export function toTripStayRow(stay: TripStay, tripId: string): TripStayRow {
+  return {
+    id: stay.id,
+    trip_id: tripId,
+    name: stay.name.trim(),
+    address: stay.address.trim() || stay.name.trim(),
+    latitude: stay.latitude,
+    longitude: stay.longitude,
+    check_in: format(stay.checkIn, 'yyyy-MM-dd'),
+    check_out: format(stay.checkOut, 'yyyy-MM-dd'),
+    confirmation_number: stay.confirmationNumber?.trim() || null,
+    time_zone: stay.timeZone || null,
+  };
+}
+
+export function getStayNights(stay: TripStay): number {
+  return differenceInCalendarDays(stay.checkOut, stay.checkIn);
+}
+
+// The stay booked for each night of the trip, indexed by the day the night
+// follows. Where stays overlap, the later check-in wins.
+export function getStaysByNight(stays: TripStay[], startDate: Date, daysCount: number): (TripStay | undefined)[] {
+  const sorted = [...stays].sort((a, b) => a.checkIn.getTime() - b.checkIn.getTime());
+  return Array.from({ length: daysCount }, (_, night) => {
+    const date = addDays(startDate, night);
+    return [...sorted].reverse().find(stay =>
+      differenceInCalendarDays(date, stay.checkIn) >= 0 && differenceInCalendarDays(stay.checkOut, date) > 0
+    );
+  });
+}
+
+// Problems with a stay as entered, or null when it can be saved
+export function validateStay(stay: TripStay, others: TripStay[]): string | null {
+  if (!stay.name.trim()) return 'Please choose where you are staying';
+  if (getStayNights(stay) < 1) return 'Check-out must be after check-in';
+
+  const overlap = others.find(other =>
+    other.id !== stay.id && other.checkIn < stay.checkOut && stay.checkIn < other.checkOut
+  );
+  return overlap ? `These dates overlap your stay at ${overlap.name}` : null;
+}
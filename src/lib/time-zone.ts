@@ -0,0 +1,129 @@
+import { startOfDay } from 'date-fns';
+
+// Trip dates and times are wall-clock values at the destination. In the app
+// they're held as local `Date`s whose fields read as that wall clock; these
+// helpers convert between such wall times and real instants in an IANA zone.
+
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Athens',
+  'Africa/Cairo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Bangkok',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Every zone the browser knows, or a short list of common ones
+export function getTimeZones(): string[] {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf?.('timeZone') ?? FALLBACK_TIME_ZONES;
+}
+
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const wallFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getWallFields(instant: Date, zone: string) {
+  let formatter = wallFormatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    wallFormatters.set(zone, formatter);
+  }
+  const parts = formatter.formatToParts(instant);
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  return {
+    year: field('year'),
+    month: field('month') - 1,
+    day: field('day'),
+    hour: field('hour'),
+    minute: field('minute'),
+    second: field('second'),
+  };
+}
+
+// Minutes the zone is ahead of UTC at an instant
+export function getZoneOffset(instant: Date, zone: string): number {
+  const wall = getWallFields(instant, zone);
+  const asUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+  return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+// The instant a wall time happens in `zone`. Times skipped by a DST change
+// land just after it; repeated times resolve to their first occurrence.
+export function wallTimeToInstant(wall: Date, zone: string): Date {
+  const asUtc = Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes());
+  const firstGuess = asUtc - getZoneOffset(new Date(asUtc), zone) * 60000;
+  return new Date(asUtc - getZoneOffset(new Date(firstGuess), zone) * 60000);
+}
+
+export function instantToWallTime(instant: Date, zone: string): Date {
+  const wall = getWallFields(instant, zone);
+  return new Date(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+// The same moment read off another zone's clock
+export function convertWallTime(wall: Date, fromZone: string, toZone: string): Date {
+  return fromZone === toZone ? wall : instantToWallTime(wallTimeToInstant(wall, fromZone), toZone);
+}
+
+export interface DstShift {
+  at: number;     // Wall-clock minute of the day the clocks change at
+  shift: number;  // Minutes they move by: positive forward, negative back
+}
+
+// The clock change on a calendar day in `zone`, if it has one
+export function getDstShift(date: Date, zone: string): DstShift | null {
+  const midnight = wallTimeToInstant(startOfDay(date), zone).getTime();
+  const offsetAt = (elapsed: number) => getZoneOffset(new Date(midnight + elapsed * 60000), zone);
+  const startOffset = offsetAt(0);
+  const endOffset = offsetAt(24 * 60);
+  if (startOffset === endOffset) return null;
+
+  // First minute after midnight on the new offset
+  let low = 0;
+  let high = 24 * 60;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (offsetAt(middle) === startOffset) low = middle;
+    else high = middle;
+  }
+  return { at: high, shift: endOffset - startOffset };
+}
+
+// Short zone name for labels, like "CEST" or "GMT+2"
+export function getZoneAbbreviation(zone: string, date: Date): string {
+  const instant = wallTimeToInstant(date, zone);
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' }).formatToParts(instant);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? zone;
+}
@@ -0,0 +1,69 @@
+import { DaySchedule, OpeningHours, TransportMode } from '../types/trip';
+import { DEFAULT_DAY_SCHEDULE, getOverrun, parseTime, scheduleStops, ScheduledStop } from './schedule';
+import { DEFAULT_TRANSPORT_MODE, estimateTravelTime } from './travel-time';
+import { getDstShift } from './time-zone';
+
+interface TimelineLocation {
+  latitude: number;
+  longitude: number;
+  estimated_duration?: number;
+  opening_hours?: OpeningHours | null;
+  travelTimeToNext?: number;
+  transportation_mode?: TransportMode | null;
+  pinned_time?: string | null;
+}
+
+export interface DayTimeline {
+  stops: ScheduledStop[];
+  overrun: number;  // minutes past the day's end time
+}
+
+const DEFAULT_VISIT_DURATION = 60;
+
+// Unresolved stops are saved at 0, 0
+const hasCoordinates = (location: TimelineLocation) =>
+  location.latitude != null && location.longitude != null && !(location.latitude === 0 && location.longitude === 0);
+
+// Clock times for a day's stops in their current order. Travel comes from the
+// travel-time service when both stops have coordinates, so it matches what the
+// optimizer planned with; otherwise from the stop's travelTimeToNext. Each
+// leg uses the previous stop's mode override, else `mode`. A day that starts
+// from the previous night's hotel includes the trip out to the first stop, and
+// one that ends at a hotel or the return point counts the trip there against
+// the day's end time. Given the day's time zone, times after a DST change
+// follow the new clock.
+export function buildDayTimeline(
+  locations: TimelineLocation[],
+  date: Date,
+  settings: DaySchedule = DEFAULT_DAY_SCHEDULE,
+  mode: TransportMode = DEFAULT_TRANSPORT_MODE,
+  startFrom?: TimelineLocation,
+  timeZone?: string,
+  endAt?: TimelineLocation
+): DayTimeline {
+  const travelBetween = (from: TimelineLocation, to: TimelineLocation) =>
+    hasCoordinates(from) && hasCoordinates(to)
+      ? estimateTravelTime(from, to, { mode: from.transportation_mode || mode })
+      : from.travelTimeToNext ?? 0;
+
+  const stops = scheduleStops(
+    locations.map((location, index) => {
+      const previous = index === 0 ? startFrom : locations[index - 1];
+      return {
+        duration: location.estimated_duration || DEFAULT_VISIT_DURATION,
+        travelTime: previous ? travelBetween(previous, location) : 0,
+        openingHours: location.opening_hours,
+        fixedStart: parseTime(location.pinned_time),
+      };
+    }),
+    date,
+    settings,
+    timeZone ? getDstShift(date, timeZone) : null
+  );
+
+  const last = locations[locations.length - 1];
+  const travelToEnd = endAt && last && hasCoordinates(last) && hasCoordinates(endAt)
+    ? estimateTravelTime(last, endAt, { mode: last.transportation_mode || mode })
+    : 0;
+  return { stops, overrun: getOverrun(stops, settings, travelToEnd) };
+}
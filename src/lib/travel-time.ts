@@ -0,0 +1,297 @@
+import { TransportMode } from '../types/trip';
+
+// A stop is identified by coordinates when we have them and by its address
+// otherwise (AI suggestions arrive without coordinates)
+export interface TravelPoint {
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+}
+
+export interface TravelTimeRequest {
+  mode?: TransportMode;    // defaults to DEFAULT_TRANSPORT_MODE
+  departureTime?: number;  // minutes after midnight, for rush-hour aware estimates
+}
+
+export interface TravelTimeProvider {
+  // Minutes from every origin to every destination, null where the provider
+  // has no estimate for a pair
+  getTravelTimes(
+    origins: TravelPoint[],
+    destinations: TravelPoint[],
+    request?: TravelTimeRequest
+  ): Promise<(number | null)[][]>;
+}
+
+export interface CachedTravelTimeProvider extends TravelTimeProvider {
+  // Warms the cache for every pair of points
+  prefetch(points: TravelPoint[], request?: TravelTimeRequest): Promise<void>;
+  // Synchronous lookup for hot loops: cached value, else the fallback estimate
+  estimate(from: TravelPoint, to: TravelPoint, request?: TravelTimeRequest): number | null;
+}
+
+export const DEFAULT_TRANSPORT_MODE: TransportMode = 'transit';
+
+export const TRANSPORT_MODE_LABELS: Record<TransportMode, string> = {
+  walk: 'Walking',
+  transit: 'Public transit',
+  drive: 'Driving',
+  bike: 'Cycling',
+};
+
+// Average door-to-door speeds for the offline estimate
+const AVERAGE_SPEED_KMH: Record<TransportMode, number> = {
+  walk: 4.5,
+  bike: 14,
+  transit: 20,
+  drive: 30,
+};
+const TRANSIT_WAIT_MINUTES = 5;
+const ROAD_DETOUR_FACTOR = 1.3;   // streets are longer than the straight line
+const RUSH_HOUR_FACTOR = 1.4;
+const RUSH_HOURS = [[8 * 60, 10 * 60], [16 * 60, 19 * 60]];
+const MATRIX_CHUNK_SIZE = 10;     // 10 x 10 stays within the 100 element limit
+
+const MATRIX_TRAVEL_MODES: Record<TransportMode, string> = {
+  walk: 'WALKING',
+  bike: 'BICYCLING',
+  transit: 'TRANSIT',
+  drive: 'DRIVING',
+};
+
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+function hasCoordinates(point: TravelPoint): point is TravelPoint & { latitude: number; longitude: number } {
+  return typeof point.latitude === 'number' && typeof point.longitude === 'number' &&
+    !(point.latitude === 0 && point.longitude === 0);
+}
+
+function isRushHour(time?: number): boolean {
+  if (time === undefined) return false;
+  const minuteOfDay = ((time % 1440) + 1440) % 1440;
+  return RUSH_HOURS.some(([start, end]) => minuteOfDay >= start && minuteOfDay < end);
+}
+
+function pointKey(point: TravelPoint): string | null {
+  if (hasCoordinates(point)) {
+    return `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`;
+  }
+  return point.address?.trim().toLowerCase() || null;
+}
+
+// Offline estimate from straight-line distance at the mode's average speed.
+// Road traffic slows driving and transit in rush hour. Points without
+// coordinates get no estimate.
+function estimateHeuristic(from: TravelPoint, to: TravelPoint, request: TravelTimeRequest = {}): number | null {
+  if (!hasCoordinates(from) || !hasCoordinates(to)) return null;
+
+  const mode = request.mode || DEFAULT_TRANSPORT_MODE;
+  const distance = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) * ROAD_DETOUR_FACTOR;
+  let minutes = (distance / AVERAGE_SPEED_KMH[mode]) * 60;
+  if ((mode === 'drive' || mode === 'transit') && isRushHour(request.departureTime)) {
+    minutes *= RUSH_HOUR_FACTOR;
+  }
+  return Math.round(mode === 'transit' ? minutes + TRANSIT_WAIT_MINUTES : minutes);
+}
+
+export function createHeuristicProvider(): TravelTimeProvider {
+  return {
+    async getTravelTimes(origins, destinations, request) {
+      return origins.map(from => destinations.map(to => estimateHeuristic(from, to, request)));
+    },
+  };
+}
+
+function toMatrixLocation(point: TravelPoint): google.maps.LatLngLiteral | string {
+  return hasCoordinates(point) ? { lat: point.latitude, lng: point.longitude } : point.address || '';
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Google Distance Matrix through the Maps JavaScript API the app already loads
+export function createDistanceMatrixProvider(): TravelTimeProvider {
+  let service: google.maps.DistanceMatrixService | null = null;
+
+  const request = (
+    origins: TravelPoint[],
+    destinations: TravelPoint[],
+    mode: TransportMode
+  ): Promise<(number | null)[][]> => {
+    if (!service) {
+      service = new google.maps.DistanceMatrixService();
+    }
+
+    return new Promise((resolve, reject) => {
+      service!.getDistanceMatrix(
+        {
+          origins: origins.map(toMatrixLocation),
+          destinations: destinations.map(toMatrixLocation),
+          travelMode: MATRIX_TRAVEL_MODES[mode] as google.maps.TravelMode,
+        },
+        (response, status) => {
+          if (status !== google.maps.DistanceMatrixStatus.OK || !response) {
+            reject(new Error(`Distance Matrix request failed: ${status}`));
+            return;
+          }
+          resolve(response.rows.map(row =>
+            row.elements.map(element =>
+              element.status === google.maps.DistanceMatrixElementStatus.OK
+                ? Math.round(element.duration.value / 60)
+                : null
+            )
+          ));
+        }
+      );
+    });
+  };
+
+  return {
+    async getTravelTimes(origins, destinations, options = {}) {
+      const matrix: (number | null)[][] = origins.map(() => destinations.map(() => null));
+      const originChunks = chunk(origins.map((point, index) => ({ point, index })), MATRIX_CHUNK_SIZE);
+      const destinationChunks = chunk(destinations.map((point, index) => ({ point, index })), MATRIX_CHUNK_SIZE);
+
+      for (const originChunk of originChunks) {
+        for (const destinationChunk of destinationChunks) {
+          const rows = await request(
+            originChunk.map(({ point }) => point),
+            destinationChunk.map(({ point }) => point),
+            options.mode || DEFAULT_TRANSPORT_MODE
+          );
+          rows.forEach((row, i) => row.forEach((minutes, j) => {
+            matrix[originChunk[i].index][destinationChunk[j].index] = minutes;
+          }));
+        }
+      }
+
+      return matrix;
+    },
+  };
+}
+
+// Remembers every pair the inner provider was asked about and falls back to
+// the heuristic for pairs it couldn't answer (or when the request failed).
+// Unanswered pairs are cached as null so they aren't requested again.
+export function createCachedProvider(inner: TravelTimeProvider): CachedTravelTimeProvider {
+  const cache = new Map<string, number | null>();
+  // Null for pairs we can't key or that are the same place
+  const pairKey = (from: TravelPoint, to: TravelPoint, request: TravelTimeRequest = {}) => {
+    const fromKey = pointKey(from);
+    const toKey = pointKey(to);
+    const mode = request.mode || DEFAULT_TRANSPORT_MODE;
+    return fromKey && toKey && fromKey !== toKey ? `${mode}:${fromKey}|${toKey}` : null;
+  };
+
+  const getTravelTimes: TravelTimeProvider['getTravelTimes'] = async (origins, destinations, request) => {
+    // Group origins by the destinations they're missing, so adding one stop
+    // to a warm set only asks for its own row and column. A cold set is
+    // requested in one go.
+    const groups = new Map<string, { origins: TravelPoint[]; destinations: TravelPoint[] }>();
+    const isCold = origins.every(from => destinations.every(to => {
+      const key = pairKey(from, to, request);
+      return key === null || !cache.has(key);
+    }));
+    if (isCold) {
+      groups.set('*', { origins, destinations });
+    }
+    for (const from of isCold ? [] : origins) {
+      const missing = destinations.filter(to => {
+        const key = pairKey(from, to, request);
+        return key !== null && !cache.has(key);
+      });
+      if (missing.length === 0) continue;
+
+      const groupKey = missing.map(pointKey).join(';');
+      const group = groups.get(groupKey) || { origins: [], destinations: missing };
+      group.origins.push(from);
+      groups.set(groupKey, group);
+    }
+
+    for (const group of groups.values()) {
+      try {
+        const fetched = await inner.getTravelTimes(group.origins, group.destinations, request);
+        fetched.forEach((row, i) => row.forEach((minutes, j) => {
+          const key = pairKey(group.origins[i], group.destinations[j], request);
+          if (key) cache.set(key, minutes);
+        }));
+      } catch (err) {
+        console.error('Travel time lookup failed, using estimates:', err);
+        group.origins.forEach(from => group.destinations.forEach(to => {
+          const key = pairKey(from, to, request);
+          if (key) cache.set(key, null);
+        }));
+      }
+    }
+
+    return origins.map(from => destinations.map(to => estimate(from, to, request)));
+  };
+
+  const estimate = (from: TravelPoint, to: TravelPoint, request?: TravelTimeRequest): number | null => {
+    const fromKey = pointKey(from);
+    if (fromKey && fromKey === pointKey(to)) return 0;
+
+    const key = pairKey(from, to, request);
+    const cached = key ? cache.get(key) : undefined;
+    if (typeof cached === 'number') return cached;
+    return estimateHeuristic(from, to, request);
+  };
+
+  return {
+    getTravelTimes,
+    estimate,
+    async prefetch(points, request) {
+      const unique = new Map<string, TravelPoint>();
+      for (const point of points) {
+        const key = pointKey(point);
+        if (key) unique.set(key, point);
+      }
+      const list = Array.from(unique.values());
+      if (list.length > 1) {
+        await getTravelTimes(list, list, request);
+      }
+    },
+  };
+}
+
+// Distance Matrix when the Maps script is available, the offline heuristic otherwise
+function createDefaultProvider(): TravelTimeProvider {
+  const matrix = createDistanceMatrixProvider();
+  const heuristic = createHeuristicProvider();
+  return {
+    getTravelTimes(origins, destinations, request) {
+      const provider = typeof google !== 'undefined' && google.maps?.DistanceMatrixService ? matrix : heuristic;
+      return provider.getTravelTimes(origins, destinations, request);
+    },
+  };
+}
+
+export const travelTimeService = createCachedProvider(createDefaultProvider());
+
+// Minutes between two stops for synchronous callers; 0 when neither the cache
+// nor the heuristic can place both points
+export function estimateTravelTime(from: TravelPoint, to: TravelPoint, request?: TravelTimeRequest): number {
+  return travelTimeService.estimate(from, to, request) ?? 0;
+}
@@ -0,0 +1,123 @@
+import { parseISO } from 'date-fns';
+import { DaySchedule, LocationKind, OpeningHours, PriceTier, TransportMode, Trip, TripRole } from '../types/trip';
+import type { Location } from '../components/ItineraryBuilder';
+import { DEFAULT_TRANSPORT_MODE } from './travel-time';
+import { DEFAULT_AIRPORT_BUFFER_MINUTES } from './segments';
+import { getBrowserTimeZone } from './time-zone';
+
+// Columns of a trips row
+export interface TripRow {
+  id: string;
+  title: string;
+  destination: string;
+  user_id: string;
+  start_date: string;  // yyyy-MM-dd
+  end_date: string;    // yyyy-MM-dd
+  pace: Trip['pace'];
+  transportation_mode: TransportMode | null;
+  airport_buffer_minutes: number | null;
+  time_zone: string | null;
+  day_schedules: Record<number, DaySchedule> | null;
+  departure_point_name: string | null;
+  departure_point_address: string | null;
+  departure_point_latitude: number | null;
+  departure_point_longitude: number | null;
+  return_point_name: string | null;
+  return_point_address: string | null;
+  return_point_latitude: number | null;
+  return_point_longitude: number | null;
+  same_return_point: boolean | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function toTrip(row: TripRow, role: TripRole): Trip {
+  return {
+    id: row.id,
+    title: row.title,
+    destination: row.destination,
+    // Calendar days at the destination, not UTC midnight
+    startDate: parseISO(row.start_date),
+    endDate: parseISO(row.end_date),
+    timeZone: row.time_zone || getBrowserTimeZone(),
+    userId: row.user_id,
+    role,
+    pace: row.pace,
+    mustSeeAttractions: [],
+    daySchedules: row.day_schedules || {},
+    transportationMode: row.transportation_mode || DEFAULT_TRANSPORT_MODE,
+    airportBufferMinutes: row.airport_buffer_minutes ?? DEFAULT_AIRPORT_BUFFER_MINUTES,
+    departurePoint: {
+      name: row.departure_point_name || '',
+      address: row.departure_point_address || '',
+      latitude: row.departure_point_latitude || 0,
+      longitude: row.departure_point_longitude || 0,
+    },
+    returnPoint: {
+      name: row.return_point_name || '',
+      address: row.return_point_address || '',
+      latitude: row.return_point_latitude || 0,
+      longitude: row.return_point_longitude || 0,
+    },
+    sameReturnPoint: row.same_return_point ?? true,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// Where the trip finishes. Trips saved before return points existed end where
+// they started.
+export function getTripEnd(trip: Trip): Trip['returnPoint'] {
+  return trip.sameReturnPoint || !(trip.returnPoint.name || trip.returnPoint.address)
+    ? trip.departurePoint
+    : trip.returnPoint;
+}
+
+// Columns of a trip_locations row
+export interface LocationRow {
+  id: string;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  day_index: number;
+  estimated_duration: number | null;
+  arrival_time: string | null;
+  rating: number | null;
+  notes: string | null;
+  pinned_day: number | null;
+  pinned_position: number | null;
+  pinned_time: string | null;
+  opening_hours: OpeningHours | null;
+  transportation_mode: TransportMode | null;
+  kind: LocationKind;
+  nights: number | null;
+  price_tier: PriceTier | null;
+  amenities: string[] | null;
+  revision: number;
+}
+
+export function toLocation(loc: LocationRow): Location {
+  return {
+    id: loc.id,
+    name: loc.name,
+    address: loc.address,
+    latitude: loc.latitude,
+    longitude: loc.longitude,
+    day_index: loc.day_index,
+    estimated_duration: loc.estimated_duration || undefined,
+    arrival_time: loc.arrival_time || undefined,
+    rating: loc.rating || undefined,
+    notes: loc.notes || undefined,
+    pinned_day: loc.pinned_day,
+    pinned_position: loc.pinned_position,
+    pinned_time: loc.pinned_time,
+    opening_hours: loc.opening_hours,
+    transportation_mode: loc.transportation_mode,
+    kind: loc.kind,
+    nights: loc.nights,
+    price_tier: loc.price_tier,
+    amenities: loc.amenities,
+    revision: loc.revision,
+  };
+}
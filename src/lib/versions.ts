@@ -0,0 +1,156 @@
+import { DaySchedule, TripSegment, TripStay } from '../types/trip';
+import type { Location } from '../components/ItineraryBuilder';
+import { supabase } from './supabase';
+import { isSameStop } from './collaboration';
+import { LocationRow, TripRow, toLocation } from './trips';
+import { TripStayRow, toTripStay, toTripStayRow } from './stays';
+import { TripSegmentRow, toTripSegment, toTripSegmentRow } from './segments';
+
+// Columns of a trip_versions row
+export interface TripVersionRow {
+  id: string;
+  trip_id: string;
+  created_by: string | null;
+  author_email: string;
+  note: string | null;
+  trip: TripRow;
+  locations: LocationRow[];
+  stays: TripStayRow[];
+  segments: TripSegmentRow[];
+  created_at: string;
+}
+
+// The itinerary as it was after one save
+export interface TripVersion {
+  id: string;
+  authorEmail: string;
+  note: string | null;
+  daySchedules: Record<number, DaySchedule>;
+  locations: Location[];
+  stays: TripStay[];
+  segments: TripSegment[];
+  createdAt: Date;
+}
+
+export function toTripVersion(row: TripVersionRow): TripVersion {
+  return {
+    id: row.id,
+    authorEmail: row.author_email,
+    note: row.note,
+    daySchedules: row.trip.day_schedules || {},
+    locations: row.locations.map(toLocation),
+    stays: row.stays.map(toTripStay),
+    segments: row.segments.map(toTripSegment),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Snapshots the trip as it's saved right now
+export async function createTripVersion(tripId: string, note: string | null = null): Promise<TripVersion> {
+  const { data, error } = await supabase
+    .rpc('create_trip_version', { version_trip_id: tripId, version_note: note })
+    .single();
+
+  if (error) throw error;
+  return toTripVersion(data as TripVersionRow);
+}
+
+// Puts a trip's stays and travel segments back as they were in `version`:
+// ones added since are deleted and the rest are written back
+export async function restoreStaysAndSegments(tripId: string, version: TripVersion): Promise<void> {
+  const tables = [
+    { table: 'trip_stays', rows: version.stays.map(stay => toTripStayRow(stay, tripId)) },
+    { table: 'trip_segments', rows: version.segments.map(segment => toTripSegmentRow(segment, tripId)) },
+  ];
+
+  for (const { table, rows } of tables) {
+    const deleteQuery = supabase.from(table).delete().eq('trip_id', tripId);
+    const { error: deleteError } = rows.length > 0
+      ? await deleteQuery.not('id', 'in', `(${rows.map(row => row.id).join(',')})`)
+      : await deleteQuery;
+    if (deleteError) throw deleteError;
+
+    if (rows.length > 0) {
+      const { error: saveError } = await supabase.from(table).upsert(rows, { onConflict: 'id' });
+      if (saveError) throw saveError;
+    }
+  }
+}
+
+export interface StopMove {
+  stop: Location;
+  day: number;  // The other day: where it came from, or where it went
+}
+
+export interface StopChange {
+  before: Location;
+  after: Location;
+}
+
+// What one day gained and lost between two versions
+export interface DayDiff {
+  dayIndex: number;
+  added: Location[];
+  removed: Location[];
+  movedIn: StopMove[];
+  movedOut: StopMove[];
+  changed: StopChange[];  // Still on the day, with a different time or details
+}
+
+const nameKey = (stop: Location) => stop.name.trim().toLowerCase();
+
+// Pairs each stop in `to` with its version in `from`: by id, and failing that
+// by name, since re-planning a day replaces its stops with new ones
+function matchStops(from: Location[], to: Location[]): Map<Location, Location> {
+  const matches = new Map<Location, Location>();
+  const unmatched = new Set(from);
+  const fromById = new Map(from.map(stop => [stop.id, stop]));
+
+  for (const stop of to) {
+    const before = fromById.get(stop.id);
+    if (before) {
+      matches.set(stop, before);
+      unmatched.delete(before);
+    }
+  }
+  for (const stop of to.filter(stop => !matches.has(stop))) {
+    const before = Array.from(unmatched).find(candidate => nameKey(candidate) === nameKey(stop));
+    if (before) {
+      matches.set(stop, before);
+      unmatched.delete(before);
+    }
+  }
+  return matches;
+}
+
+// Day-by-day differences going from one version's stops to another's. Days
+// that didn't change are left out.
+export function diffVersions(from: Location[], to: Location[]): DayDiff[] {
+  const days = new Map<number, DayDiff>();
+  const dayFor = (dayIndex: number) => {
+    if (!days.has(dayIndex)) {
+      days.set(dayIndex, { dayIndex, added: [], removed: [], movedIn: [], movedOut: [], changed: [] });
+    }
+    return days.get(dayIndex)!;
+  };
+
+  const matches = matchStops(from, to);
+  const matched = new Set(matches.values());
+
+  for (const stop of to) {
+    const before = matches.get(stop);
+    if (!before) {
+      dayFor(stop.day_index).added.push(stop);
+    } else if (before.day_index !== stop.day_index) {
+      dayFor(stop.day_index).movedIn.push({ stop, day: before.day_index });
+      dayFor(before.day_index).movedOut.push({ stop: before, day: stop.day_index });
+    } else if (!isSameStop(before, stop)) {
+      dayFor(stop.day_index).changed.push({ before, after: stop });
+    }
+  }
+  for (const stop of from.filter(stop => !matched.has(stop))) {
+    dayFor(stop.day_index).removed.push(stop);
+  }
+
+  return Array.from(days.values()).sort((a, b) => a.dayIndex - b.dayIndex);
+}
@@ -1,10 +1,17 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Calendar, Clock, Navigation } from 'lucide-react';
+import { Calendar, Clock, Globe, Navigation } from 'lucide-react';
+import { format } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { useLoadScript } from '@react-google-maps/api';
 import { LocationPicker } from '../components/LocationPicker';
+import { SegmentsEditor } from '../components/SegmentsEditor';
+import { TimeZoneSelect } from '../components/TimeZoneSelect';
+import { TRANSPORT_MODE_LABELS } from '../lib/travel-time';
+import { DEFAULT_AIRPORT_BUFFER_MINUTES, toTripSegmentRow } from '../lib/segments';
+import { getBrowserTimeZone } from '../lib/time-zone';
+import { TransportMode, TripSegment } from '../types/trip';
 
 interface Location {
   name: string;
@@ -18,11 +25,15 @@ interface TripFormData {
   destination: string;
   startDate: string;
   endDate: string;
+  timeZone: string;
   pace: 'relaxed' | 'balanced' | 'intensive';
+  transportationMode: TransportMode;
 
   departurePoint: Location;
   returnPoint: Location;
   sameReturnPoint: boolean;
+  segments: TripSegment[];
+  airportBufferMinutes: number;
 }
 
 const libraries: ("places" | "geometry" | "drawing" | "visualization")[] = ["places"];
@@ -43,7 +54,9 @@ export function NewTrip() {
     destination: '',
     startDate: '',
     endDate: '',
+    timeZone: getBrowserTimeZone(),
     pace: 'balanced',
+    transportationMode: 'transit',
 
     departurePoint: {
       name: '',
@@ -58,6 +71,8 @@ export function NewTrip() {
       longitude: 2.3522,
     },
     sameReturnPoint: true,
+    segments: [],
+    airportBufferMinutes: DEFAULT_AIRPORT_BUFFER_MINUTES,
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -76,8 +91,11 @@ export function NewTrip() {
             destination: formData.destination,
             start_date: formData.startDate,
             end_date: formData.endDate,
+            time_zone: formData.timeZone,
             user_id: user.id,
             pace: formData.pace,
+            transportation_mode: formData.transportationMode,
+            airport_buffer_minutes: formData.airportBufferMinutes,
 
             departure_point_name: formData.departurePoint.name,
             departure_point_address: formData.departurePoint.address,
@@ -95,6 +113,13 @@ export function NewTrip() {
 
       if (tripError) throw tripError;
       if (data) {
+        if (formData.segments.length > 0) {
+          const { error: segmentsError } = await supabase
+            .from('trip_segments')
+            .insert(formData.segments.map(segment => toTripSegmentRow(segment, data.id)));
+          if (segmentsError) throw segmentsError;
+        }
+
         navigate(`/trip/${data.id}`);
       }
     } catch (err: any) {
@@ -116,6 +141,9 @@ export function NewTrip() {
     }
   };
 
+  // In the planner's own zone, not UTC
+  const today = format(new Date(), 'yyyy-MM-dd');
+
   if (!isLoaded) return <div>Loading maps...</div>;
   if (loadError) return <div>Error loading maps</div>;
 
@@ -220,7 +248,7 @@ export function NewTrip() {
                       required
                       value={formData.startDate}
                       onChange={handleInputChange}
-                      min={new Date().toISOString().split('T')[0]}
+                      min={today}
                       className="block w-full pl-10 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
@@ -241,13 +269,31 @@ export function NewTrip() {
                       required
                       value={formData.endDate}
                       onChange={handleInputChange}
-                      min={formData.startDate || new Date().toISOString().split('T')[0]}
+                      min={formData.startDate || today}
                       className="block w-full pl-10 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
                 </div>
               </div>
 
+              <div>
+                <label htmlFor="timeZone" className="block text-sm font-medium text-gray-700">
+                  Destination Time Zone
+                </label>
+                <p className="text-sm text-gray-500">Dates and times in your itinerary are local to this zone</p>
+                <div className="mt-1 relative rounded-md shadow-sm">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Globe className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <TimeZoneSelect
+                    id="timeZone"
+                    value={formData.timeZone}
+                    onChange={(zone) => setFormData(prev => ({ ...prev, timeZone: zone || getBrowserTimeZone() }))}
+                    className="block w-full pl-10 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
               <div className="space-y-4">
                 <h3 className="text-lg font-medium text-gray-900">Trip Pace</h3>
                 
@@ -288,7 +334,59 @@ export function NewTrip() {
                 </div>
               </div>
 
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium text-gray-900">Getting Around</h3>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {(Object.keys(TRANSPORT_MODE_LABELS) as TransportMode[]).map(mode => (
+                    <div
+                      key={mode}
+                      className={`flex items-center justify-center p-4 border rounded-lg cursor-pointer ${
+                        formData.transportationMode === mode
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-gray-300'
+                      }`}
+                      onClick={() => setFormData(prev => ({ ...prev, transportationMode: mode }))}
+                    >
+                      <span className="font-medium">{TRANSPORT_MODE_LABELS[mode]}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium text-gray-900">Getting There and Back</h3>
+                <p className="text-sm text-gray-500">
+                  Add your flights, trains or buses so the first and last days only plan around the time you're there.
+                </p>
 
+                <SegmentsEditor
+                  segments={formData.segments}
+                  onChange={(segments) => setFormData(prev => ({ ...prev, segments }))}
+                />
+
+                <div>
+                  <label htmlFor="airportBufferMinutes" className="block text-sm font-medium text-gray-700">
+                    Airport time (minutes)
+                  </label>
+                  <p className="text-sm text-gray-500">Kept free before a flight leaves and after it lands</p>
+                  <input
+                    type="number"
+                    name="airportBufferMinutes"
+                    id="airportBufferMinutes"
+                    min={0}
+                    max={600}
+                    step={15}
+                    value={formData.airportBufferMinutes}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      airportBufferMinutes: Math.min(600, Math.max(0, Number(e.target.value) || 0)),
+                    }))}
+                    className="mt-1 block w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
 
               <div className="mt-6">
                 <button
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Calendar, MapPin, Clock, Bus, Plane, Globe, Link2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ItineraryBuilder } from '../components/ItineraryBuilder';
+import { SharedTrip as SharedTripData, fetchSharedTrip } from '../lib/share-links';
+import { getTripEnd } from '../lib/trips';
+import { formatSegment } from '../lib/segments';
+import { TRANSPORT_MODE_LABELS } from '../lib/travel-time';
+
+// A trip opened from a share link: the same itinerary as TripView, read-only
+// and without signing in
+export function SharedTrip() {
+  const { token } = useParams<{ token: string }>();
+  const [shared, setShared] = useState<SharedTripData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSharedTrip = async () => {
+      try {
+        const data = await fetchSharedTrip(token!);
+        if (!data) throw new Error('This link has expired or been turned off');
+        setShared(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load trip');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSharedTrip();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-gray-600">Loading trip details...</div>
+      </div>
+    );
+  }
+
+  if (error || !shared) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-red-600">{error || 'Trip not found'}</div>
+      </div>
+    );
+  }
+
+  const { trip, locations, stays, segments } = shared;
+  const tripEnd = getTripEnd(trip);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-4 flex items-center gap-2 bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-md">
+          <Link2 className="h-4 w-4 flex-shrink-0" />
+          <span>You're viewing a shared itinerary. It shows the latest saved plan.</span>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">{trip.title}</h1>
+          <div className="space-y-2">
+            <div className="flex items-center text-gray-600">
+              <MapPin className="h-5 w-5 mr-2" />
+              <div className="flex flex-col">
+                <span className="text-sm text-gray-500">From</span>
+                <span>{trip.departurePoint.name || trip.departurePoint.address}</span>
+              </div>
+            </div>
+            <div className="flex items-center text-gray-600">
+              <MapPin className="h-5 w-5 mr-2" />
+              <div className="flex flex-col">
+                <span className="text-sm text-gray-500">To</span>
+                <span>{tripEnd.name || tripEnd.address}</span>
+              </div>
+            </div>
+            <div className="flex items-center text-gray-600">
+              <Calendar className="h-5 w-5 mr-2" />
+              <span>
+                {format(trip.startDate, 'MMM d')} - {format(trip.endDate, 'MMM d, yyyy')}
+              </span>
+            </div>
+            {segments.map(segment => (
+              <div key={segment.id} className="flex items-center text-gray-600">
+                <Plane className="h-5 w-5 mr-2" />
+                <span>
+                  {formatSegment(segment)} · {segment.departureStation} {format(segment.departureTime, 'MMM d HH:mm')}
+                  {' → '}{segment.arrivalStation} {format(segment.arrivalTime, 'MMM d HH:mm')}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center text-gray-600">
+              <Clock className="h-5 w-5 mr-2" />
+              <span className="capitalize">{trip.pace} pace</span>
+            </div>
+            <div className="flex items-center text-gray-600">
+              <Globe className="h-5 w-5 mr-2" />
+              <span>{trip.timeZone.replace(/_/g, ' ')}</span>
+            </div>
+            <div className="flex items-center text-gray-600">
+              <Bus className="h-5 w-5 mr-2" />
+              <span>{TRANSPORT_MODE_LABELS[trip.transportationMode]}</span>
+            </div>
+          </div>
+        </div>
+
+        <ItineraryBuilder
+          tripId={trip.id}
+          startDate={trip.startDate}
+          endDate={trip.endDate}
+          pace={trip.pace}
+          transportationMode={trip.transportationMode}
+          departurePoint={trip.departurePoint}
+          returnPoint={tripEnd}
+          stays={stays}
+          segments={segments}
+          airportBufferMinutes={trip.airportBufferMinutes}
+          timeZone={trip.timeZone}
+          readOnly
+          onSave={async () => {}}
+          savedLocations={locations}
+          initialDaySchedules={trip.daySchedules}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,37 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Calendar, MapPin, Clock, Navigation2 } from 'lucide-react';
-import { format } from 'date-fns';
+import { Calendar, MapPin, Clock, Bus, Plane, Globe } from 'lucide-react';
+import { differenceInDays, format } from 'date-fns';
 import { supabase } from '../lib/supabase';
-import { Trip } from '../types/trip';
+import {
+  CandidateVote,
+  DaySchedule,
+  TransportMode,
+  Trip,
+  TripCandidate,
+  TripMember,
+  TripRole,
+  TripSegment,
+  TripShareLink,
+  TripStay,
+} from '../types/trip';
 import { ItineraryBuilder, Location } from '../components/ItineraryBuilder';
+import { StaysEditor } from '../components/StaysEditor';
+import { TimeZoneSelect } from '../components/TimeZoneSelect';
+import { TripMembers } from '../components/TripMembers';
+import { ShareLinks } from '../components/ShareLinks';
+import { CandidatePlaces, NewCandidate } from '../components/CandidatePlaces';
+import { VersionHistory } from '../components/VersionHistory';
 import { useAuth } from '../contexts/AuthContext';
+import { TRANSPORT_MODE_LABELS } from '../lib/travel-time';
+import { toTripStay, toTripStayRow } from '../lib/stays';
+import { formatSegment, toTripSegment } from '../lib/segments';
+import { canEdit, getRole, inviteMember, toTripMember } from '../lib/members';
+import { TripPresence, joinTrip, saveStops } from '../lib/collaboration';
+import { LocationRow, getTripEnd, toLocation, toTrip } from '../lib/trips';
+import { getShareLinkExpiry, toTripShareLink } from '../lib/share-links';
+import { CANDIDATE_SELECT, toCandidateComment, toTripCandidate } from '../lib/candidates';
+import { TripVersion, createTripVersion, restoreStaysAndSegments, toTripVersion } from '../lib/versions';
 
 export function TripView() {
   const { id } = useParams<{ id: string }>();
@@ -13,6 +39,16 @@ export function TripView() {
   const { user } = useAuth();
   const [trip, setTrip] = useState<Trip | null>(null);
   const [locations, setLocations] = useState<Location[]>([]);
+  const [stays, setStays] = useState<TripStay[]>([]);
+  const [segments, setSegments] = useState<TripSegment[]>([]);
+  const [members, setMembers] = useState<TripMember[]>([]);
+  const [viewers, setViewers] = useState<TripPresence[]>([]);
+  const [shareLinks, setShareLinks] = useState<TripShareLink[]>([]);
+  const [candidates, setCandidates] = useState<TripCandidate[]>([]);
+  const [versions, setVersions] = useState<TripVersion[]>([]);
+  // Bumped on restore so the builder starts over from the restored plan
+  const [restoreCount, setRestoreCount] = useState(0);
+  const tripChannelRef = useRef<ReturnType<typeof joinTrip> | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [saveError, setSaveError] = useState<string | null>(null);
@@ -29,25 +65,111 @@ export function TripView() {
       if (error) throw error;
       
       if (data) {
-        const typedLocations = data.map(loc => ({
-          id: loc.id,
-          name: loc.name,
-          address: loc.address,
-          latitude: loc.latitude,
-          longitude: loc.longitude,
-          day_index: loc.day_index,
-          estimated_duration: loc.estimated_duration || undefined,
-          arrival_time: loc.arrival_time || undefined,
-          rating: loc.rating || undefined,
-          notes: loc.notes || undefined,
-        }));
-        setLocations(typedLocations);
+        setLocations(data.map(toLocation));
       }
     } catch (err) {
       console.error('Error fetching locations:', err);
     }
   };
 
+  const fetchStays = async () => {
+    const { data, error } = await supabase
+      .from('trip_stays')
+      .select('*')
+      .eq('trip_id', id)
+      .order('check_in');
+
+    if (error) {
+      console.error('Error fetching stays:', error);
+      return;
+    }
+    setStays((data || []).map(toTripStay));
+  };
+
+  const fetchSegments = async () => {
+    const { data, error } = await supabase
+      .from('trip_segments')
+      .select('*')
+      .eq('trip_id', id)
+      .order('departure_time');
+
+    if (error) {
+      console.error('Error fetching travel segments:', error);
+      return;
+    }
+    setSegments((data || []).map(toTripSegment));
+  };
+
+  const fetchMembers = async (): Promise<TripMember[]> => {
+    const { data, error } = await supabase
+      .from('trip_members')
+      .select('*')
+      .eq('trip_id', id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching trip members:', error);
+      return [];
+    }
+    const tripMembers = (data || []).map(toTripMember);
+    setMembers(tripMembers);
+    return tripMembers;
+  };
+
+  // Only owners can see share links; everyone else gets none back
+  const fetchShareLinks = async () => {
+    const { data, error } = await supabase
+      .from('trip_share_links')
+      .select('*')
+      .eq('trip_id', id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching share links:', error);
+      return;
+    }
+    setShareLinks((data || []).map(toTripShareLink));
+  };
+
+  const fetchCandidates = async () => {
+    const { data, error } = await supabase
+      .from('trip_candidates')
+      .select(CANDIDATE_SELECT)
+      .eq('trip_id', id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching must-visit places:', error);
+      return;
+    }
+    setCandidates((data || []).map(toTripCandidate));
+  };
+
+  const fetchVersions = async () => {
+    const { data, error } = await supabase
+      .from('trip_versions')
+      .select('*')
+      .eq('trip_id', id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching versions:', error);
+      return;
+    }
+    setVersions((data || []).map(toTripVersion));
+  };
+
+  // The save itself already succeeded, so a failed snapshot is only logged
+  const snapshotVersion = async (note: string | null = null) => {
+    try {
+      const version = await createTripVersion(id!, note);
+      setVersions(prev => [version, ...prev]);
+    } catch (err) {
+      console.error('Error saving a version:', err);
+    }
+  };
+
   useEffect(() => {
     if (!user) {
       navigate('/login');
@@ -65,33 +187,11 @@ export function TripView() {
         if (tripError) throw tripError;
         if (!tripData) throw new Error('Trip not found');
 
-        setTrip({
-          ...tripData,
-          startDate: new Date(tripData.start_date),
-          endDate: new Date(tripData.end_date),
-          userId: tripData.user_id,
-          mustVisitPlaces: tripData.must_visit_places || [],
-          accommodation: {
-            name: tripData.accommodation_name || '',
-            address: tripData.accommodation_address || '',
-            latitude: tripData.accommodation_latitude,
-            longitude: tripData.accommodation_longitude,
-          },
-          departurePoint: {
-            name: tripData.departure_point_name || '',
-            address: tripData.departure_point_address || '',
-            latitude: tripData.departure_point_latitude || 0,
-            longitude: tripData.departure_point_longitude || 0,
-          },
-          returnPoint: {
-            name: tripData.return_point_name || '',
-            address: tripData.return_point_address || '',
-            latitude: tripData.return_point_latitude || 0,
-            longitude: tripData.return_point_longitude || 0,
-          },
-        });
+        const tripMembers = await fetchMembers();
 
-        await fetchLocations();
+        setTrip(toTrip(tripData, getRole(tripMembers, user.id, tripData.user_id)));
+
+        await Promise.all([fetchLocations(), fetchStays(), fetchSegments(), fetchShareLinks(), fetchCandidates(), fetchVersions()]);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load trip');
       } finally {
@@ -102,88 +202,265 @@ export function TripView() {
     fetchTripAndLocations();
   }, [user, navigate, id]);
 
-  const handleSaveItinerary = async (locationsToSave: Location[]) => {
+  // `locations` follows what's saved, including other members' saves as they
+  // happen; ItineraryBuilder merges them into unsaved edits
+  useEffect(() => {
+    if (!user || !id) return;
+
+    const channel = joinTrip<LocationRow>(id, { userId: user.id, email: user.email ?? '', dayIndex: null }, {
+      onStopSaved: row => {
+        const stop = toLocation(row);
+        setLocations(prev => {
+          const existing = prev.find(loc => loc.id === stop.id);
+          // Our own saves echo back; we already have them
+          if (existing && (existing.revision ?? 1) >= (stop.revision ?? 1)) return prev;
+          return existing ? prev.map(loc => loc.id === stop.id ? stop : loc) : [...prev, stop];
+        });
+      },
+      onStopDeleted: stopId => {
+        setLocations(prev => prev.some(loc => loc.id === stopId) ? prev.filter(loc => loc.id !== stopId) : prev);
+      },
+      onPresence: setViewers,
+    });
+    tripChannelRef.current = channel;
+
+    return () => {
+      channel.leave();
+      tripChannelRef.current = null;
+    };
+  }, [user, id]);
+
+  const handleTransportModeChange = async (mode: TransportMode) => {
+    if (!trip) return;
+    const previousMode = trip.transportationMode;
+    setTrip({ ...trip, transportationMode: mode });
+    setSaveError(null);
+
+    const { error: updateError } = await supabase
+      .from('trips')
+      .update({ transportation_mode: mode })
+      .eq('id', id);
+
+    if (updateError) {
+      setTrip(prev => prev && { ...prev, transportationMode: previousMode });
+      setSaveError(`Error saving transport mode: ${updateError.message}`);
+    }
+  };
+
+  const handleTimeZoneChange = async (timeZone: string) => {
+    if (!trip) return;
+    const previousTimeZone = trip.timeZone;
+    setTrip({ ...trip, timeZone });
+    setSaveError(null);
+
+    const { error: updateError } = await supabase
+      .from('trips')
+      .update({ time_zone: timeZone })
+      .eq('id', id);
+
+    if (updateError) {
+      setTrip(prev => prev && { ...prev, timeZone: previousTimeZone });
+      setSaveError(`Error saving time zone: ${updateError.message}`);
+    }
+  };
+
+  const handleSaveStay = async (stay: TripStay) => {
+    const { error: saveError } = await supabase
+      .from('trip_stays')
+      .upsert(toTripStayRow(stay, id!), { onConflict: 'id' });
+
+    if (saveError) throw saveError;
+    setStays(prev => [...prev.filter(existing => existing.id !== stay.id), stay]);
+  };
+
+  const handleDeleteStay = async (stayId: string) => {
+    const { error: deleteError } = await supabase
+      .from('trip_stays')
+      .delete()
+      .eq('id', stayId);
+
+    if (deleteError) throw deleteError;
+    setStays(prev => prev.filter(stay => stay.id !== stayId));
+  };
+
+  const handleInvite = async (email: string, role: TripRole) => {
+    const member = await inviteMember(id!, email, role);
+    setMembers(prev => [...prev, member]);
+  };
+
+  const handleMemberRoleChange = async (memberId: string, role: TripRole) => {
+    const { error: updateError } = await supabase
+      .from('trip_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    if (updateError) throw updateError;
+    const updated = members.map(member => member.id === memberId ? { ...member, role } : member);
+    setMembers(updated);
+    setTrip(prev => prev && { ...prev, role: getRole(updated, user!.id, prev.userId) });
+  };
+
+  const handleRemoveMember = async (memberId: string) => {
+    const { error: deleteError } = await supabase
+      .from('trip_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (deleteError) throw deleteError;
+    if (members.find(member => member.id === memberId)?.userId === user?.id) {
+      navigate('/trips');
+      return;
+    }
+    setMembers(prev => prev.filter(member => member.id !== memberId));
+  };
+
+  const handleCreateShareLink = async (expiresInDays: number | null) => {
+    const { data, error: insertError } = await supabase
+      .from('trip_share_links')
+      .insert({
+        trip_id: id,
+        created_by: user!.id,
+        expires_at: getShareLinkExpiry(expiresInDays)?.toISOString() ?? null,
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+    setShareLinks(prev => [...prev, toTripShareLink(data)]);
+  };
+
+  const handleRevokeShareLink = async (linkId: string) => {
+    const revokedAt = new Date();
+    const { error: updateError } = await supabase
+      .from('trip_share_links')
+      .update({ revoked_at: revokedAt.toISOString() })
+      .eq('id', linkId);
+
+    if (updateError) throw updateError;
+    setShareLinks(prev => prev.map(link => link.id === linkId ? { ...link, revokedAt } : link));
+  };
+
+  const updateCandidate = (candidateId: string, update: (candidate: TripCandidate) => TripCandidate) => {
+    setCandidates(prev => prev.map(candidate => candidate.id === candidateId ? update(candidate) : candidate));
+  };
+
+  const handleAddCandidates = async (places: NewCandidate[], preferredDay: number | null) => {
+    const { data, error: insertError } = await supabase
+      .from('trip_candidates')
+      .insert(places.map(place => ({
+        trip_id: id,
+        name: place.name,
+        address: place.address || place.name,
+        latitude: place.latitude,
+        longitude: place.longitude,
+        preferred_day: preferredDay,
+        suggested_by: user!.id,
+      })))
+      .select(CANDIDATE_SELECT);
+
+    if (insertError) throw insertError;
+    setCandidates(prev => [...prev, ...(data || []).map(toTripCandidate)]);
+  };
+
+  const handleCandidateDayChange = async (candidateId: string, preferredDay: number | null) => {
+    const { error: updateError } = await supabase
+      .from('trip_candidates')
+      .update({ preferred_day: preferredDay })
+      .eq('id', candidateId);
+
+    if (updateError) throw updateError;
+    updateCandidate(candidateId, candidate => ({ ...candidate, preferredDay }));
+  };
+
+  const handleRemoveCandidate = async (candidateId: string) => {
+    const { error: deleteError } = await supabase
+      .from('trip_candidates')
+      .delete()
+      .eq('id', candidateId);
+
+    if (deleteError) throw deleteError;
+    setCandidates(prev => prev.filter(candidate => candidate.id !== candidateId));
+  };
+
+  // `null` takes the signed-in user's vote back
+  const handleVote = async (candidateId: string, value: CandidateVote['value'] | null) => {
+    const { error: voteError } = value === null
+      ? await supabase
+          .from('trip_candidate_votes')
+          .delete()
+          .eq('candidate_id', candidateId)
+          .eq('user_id', user!.id)
+      : await supabase
+          .from('trip_candidate_votes')
+          .upsert({ candidate_id: candidateId, user_id: user!.id, value }, { onConflict: 'candidate_id,user_id' });
+
+    if (voteError) throw voteError;
+    updateCandidate(candidateId, candidate => ({
+      ...candidate,
+      votes: [
+        ...candidate.votes.filter(vote => vote.userId !== user!.id),
+        ...(value === null ? [] : [{ userId: user!.id, value }]),
+      ],
+    }));
+  };
+
+  const handleComment = async (candidateId: string, body: string) => {
+    const { data, error: insertError } = await supabase
+      .from('trip_candidate_comments')
+      .insert({ candidate_id: candidateId, user_id: user!.id, body })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+    updateCandidate(candidateId, candidate => ({
+      ...candidate,
+      comments: [...candidate.comments, toCandidateComment(data)],
+    }));
+  };
+
+  const handleSaveItinerary = async (
+    locationsToSave: Location[],
+    daySchedules: Record<number, DaySchedule>
+  ) => {
     setSaveError(null);
     setSaveSuccess(false);
 
     try {
-      // First, get all current locations to identify ones to delete
-      const { data: currentLocations } = await supabase
-        .from('trip_locations')
-        .select('id')
-        .eq('trip_id', id);
-
-      const currentIds = new Set(currentLocations?.map(loc => loc.id) || []);
-      const newIds = new Set(locationsToSave.map(loc => loc.id));
-
-      // Find IDs to delete (in current but not in new)
-      const idsToDelete = Array.from(currentIds).filter(id => !newIds.has(id));
-
-      // Split locations into new and existing
-      const [existingLocations, newLocations] = locationsToSave.reduce<[Location[], Location[]]>(
-        ([existing, newLocs], loc) => {
-          if (currentIds.has(loc.id)) {
-            existing.push(loc);
-          } else {
-            newLocs.push(loc);
-          }
-          return [existing, newLocs];
-        }, 
-        [[], []]
-      );
-
-      // Delete removed locations
-      if (idsToDelete.length > 0) {
-        const { error: deleteError } = await supabase
-          .from('trip_locations')
-          .delete()
-          .in('id', idsToDelete);
+      const { error: scheduleError } = await supabase
+        .from('trips')
+        .update({ day_schedules: daySchedules })
+        .eq('id', id);
 
-        if (deleteError) throw deleteError;
-      }
+      if (scheduleError) throw scheduleError;
 
-      // Insert new locations
-      if (newLocations.length > 0) {
-        const { error: insertError } = await supabase
-          .from('trip_locations')
-          .insert(
-            newLocations.map(loc => ({
-              trip_id: id,
-              ...loc
-            }))
-          );
-
-        if (insertError) throw insertError;
-      }
+      const { saved, stale } = await saveStops(id!, locations, locationsToSave);
 
-      // Update existing locations
-      if (existingLocations.length > 0) {
-        const { error: updateError } = await supabase
+      if (stale.length > 0) {
+        // Someone else saved these first, so nothing was saved. Reload them so
+        // the builder can show both versions; the other edits stay unsaved.
+        const { data: fresh, error: freshError } = await supabase
           .from('trip_locations')
-          .upsert(
-            existingLocations.map(loc => ({
-              trip_id: id,
-              ...loc,
-              // Ensure required fields are set with proper fallbacks
-              name: loc.name.trim(),
-              address: loc.address?.trim() || loc.name.trim(),
-              latitude: typeof loc.latitude === 'number' ? loc.latitude : 0,
-              longitude: typeof loc.longitude === 'number' ? loc.longitude : 0,
-              day_index: loc.day_index
-            })),
-            {
-              onConflict: 'id',
-              ignoreDuplicates: false
-            }
-          );
-
-        if (updateError) throw updateError;
+          .select('*')
+          .in('id', stale);
+
+        if (freshError) throw freshError;
+        const freshById = new Map((fresh || []).map(row => [row.id, toLocation(row)]));
+        const staleIds = new Set(stale);
+        setLocations([
+          ...saved.filter(loc => !staleIds.has(loc.id)),
+          ...Array.from(freshById.values()),
+        ]);
+        throw new Error(
+          `${stale.length} ${stale.length === 1 ? 'stop was' : 'stops were'} changed by someone else while you were ` +
+          'saving. Choose which version to keep, then save again.'
+        );
       }
 
       // Update local state
-      setLocations(locationsToSave);
+      setLocations(saved);
       setSaveSuccess(true);
       setTimeout(() => setSaveSuccess(false), 3000);
+      await snapshotVersion();
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to save itinerary';
       setSaveError(`Error saving itinerary: ${message}`);
@@ -191,6 +468,33 @@ export function TripView() {
     }
   };
 
+  // Saves a version's stops and day schedules over the current plan. It's a
+  // save like any other, so it gets a version of its own.
+  const handleRestoreVersion = async (version: TripVersion) => {
+    const { error: scheduleError } = await supabase
+      .from('trips')
+      .update({ day_schedules: version.daySchedules })
+      .eq('id', id);
+
+    if (scheduleError) throw scheduleError;
+    setTrip(prev => prev && { ...prev, daySchedules: version.daySchedules });
+
+    const { saved, stale } = await saveStops(id!, locations, version.locations);
+    if (stale.length > 0) {
+      await fetchLocations();
+      setRestoreCount(count => count + 1);
+      throw new Error('Someone else saved the itinerary while it was being restored. Check the plan and try again.');
+    }
+
+    setLocations(saved);
+    setRestoreCount(count => count + 1);
+
+    await restoreStaysAndSegments(id!, version);
+    setStays(version.stays);
+    setSegments(version.segments);
+    await snapshotVersion(`Restored from ${format(version.createdAt, 'MMM d, HH:mm')}`);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -207,6 +511,9 @@ export function TripView() {
     );
   }
 
+  const tripEnd = getTripEnd(trip);
+  const readOnly = !canEdit(trip.role);
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -215,6 +522,11 @@ export function TripView() {
             {saveError}
           </div>
         )}
+        {readOnly && (
+          <div className="mb-4 bg-gray-50 border border-gray-200 text-gray-600 px-4 py-3 rounded-md">
+            You can view this trip. Ask one of its owners for edit access to make changes.
+          </div>
+        )}
         {saveSuccess && (
           <div className="mb-4 bg-green-50 border border-green-200 text-green-600 px-4 py-3 rounded-md">
             Itinerary saved successfully!
@@ -236,7 +548,7 @@ export function TripView() {
                   <MapPin className="h-5 w-5 mr-2" />
                   <div className="flex flex-col">
                     <span className="text-sm text-gray-500">To</span>
-                    <span>{trip.returnPoint.name || trip.returnPoint.address}</span>
+                    <span>{tripEnd.name || tripEnd.address}</span>
                   </div>
                 </div>
                 <div className="flex items-center text-gray-600">
@@ -245,31 +557,117 @@ export function TripView() {
                     {format(trip.startDate, 'MMM d')} - {format(trip.endDate, 'MMM d, yyyy')}
                   </span>
                 </div>
+                {segments.map(segment => (
+                  <div key={segment.id} className="flex items-center text-gray-600">
+                    <Plane className="h-5 w-5 mr-2" />
+                    <span>
+                      {formatSegment(segment)} · {segment.departureStation} {format(segment.departureTime, 'MMM d HH:mm')}
+                      {' → '}{segment.arrivalStation} {format(segment.arrivalTime, 'MMM d HH:mm')}
+                    </span>
+                  </div>
+                ))}
                 <div className="flex items-center text-gray-600">
                   <Clock className="h-5 w-5 mr-2" />
                   <span className="capitalize">{trip.pace} pace</span>
                 </div>
-                {trip.accommodation.name && (
-                  <div className="flex items-center text-gray-600">
-                    <Navigation2 className="h-5 w-5 mr-2" />
-                    <span>{trip.accommodation.name}</span>
-                  </div>
-                )}
+                <div className="flex items-center text-gray-600">
+                  <Globe className="h-5 w-5 mr-2" />
+                  <TimeZoneSelect
+                    value={trip.timeZone}
+                    onChange={(zone) => zone && handleTimeZoneChange(zone)}
+                    disabled={readOnly}
+                    className="bg-transparent border-none p-0 pr-8 text-gray-600 focus:ring-0"
+                  />
+                </div>
+                <div className="flex items-center text-gray-600">
+                  <Bus className="h-5 w-5 mr-2" />
+                  <select
+                    value={trip.transportationMode}
+                    onChange={(e) => handleTransportModeChange(e.target.value as TransportMode)}
+                    disabled={readOnly}
+                    className="bg-transparent border-none p-0 pr-8 text-gray-600 focus:ring-0"
+                    title="How you get around on this trip"
+                  >
+                    {(Object.keys(TRANSPORT_MODE_LABELS) as TransportMode[]).map(mode => (
+                      <option key={mode} value={mode}>{TRANSPORT_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
             </div>
           </div>
         </div>
 
+        <TripMembers
+          members={members}
+          currentUserId={user!.id}
+          creatorId={trip.userId}
+          canManage={trip.role === 'owner'}
+          onInvite={handleInvite}
+          onRoleChange={handleMemberRoleChange}
+          onRemove={handleRemoveMember}
+          onlineUserIds={viewers.map(viewer => viewer.userId)}
+        />
+
+        {trip.role === 'owner' && (
+          <ShareLinks
+            links={shareLinks}
+            onCreate={handleCreateShareLink}
+            onRevoke={handleRevokeShareLink}
+          />
+        )}
+
+        <CandidatePlaces
+          candidates={candidates}
+          tripDays={differenceInDays(trip.endDate, trip.startDate) + 1}
+          currentUserId={user!.id}
+          canEdit={!readOnly}
+          onAdd={handleAddCandidates}
+          onDayChange={handleCandidateDayChange}
+          onRemove={handleRemoveCandidate}
+          onVote={handleVote}
+          onComment={handleComment}
+        />
+
+        <StaysEditor
+          stays={stays}
+          startDate={trip.startDate}
+          endDate={trip.endDate}
+          onSave={handleSaveStay}
+          onDelete={handleDeleteStay}
+          readOnly={readOnly}
+        />
+
         <ItineraryBuilder
+          key={restoreCount}
           tripId={trip.id}
           startDate={trip.startDate}
           endDate={trip.endDate}
           pace={trip.pace}
+          transportationMode={trip.transportationMode}
           departurePoint={trip.departurePoint}
+          returnPoint={tripEnd}
+          stays={stays}
+          segments={segments}
+          airportBufferMinutes={trip.airportBufferMinutes}
+          timeZone={trip.timeZone}
+          readOnly={readOnly}
           onSave={handleSaveItinerary}
-          mustVisitPlaces={trip.mustVisitPlaces}
-          initialLocations={locations}
+          candidates={candidates}
+          savedLocations={locations}
+          initialDaySchedules={trip.daySchedules}
+          viewers={viewers}
+          onFocusDay={(dayIndex) => tripChannelRef.current?.setDay(dayIndex)}
         />
+
+        <div className="mt-8">
+          <VersionHistory
+            versions={versions}
+            startDate={trip.startDate}
+            canRestore={!readOnly}
+            onRestore={handleRestoreVersion}
+          />
+        </div>
       </div>
     </div>
   );
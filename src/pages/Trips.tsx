@@ -1,10 +1,13 @@
 import { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Plane, Plus, Edit2, Trash2, MapPin } from 'lucide-react';
+import { Plane, Plus, Edit2, Trash2, MapPin, Users } from 'lucide-react';
 import { format } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { Trip } from '../types/trip';
+import { Trip, TripRole } from '../types/trip';
+import { getBrowserTimeZone, getZoneAbbreviation } from '../lib/time-zone';
+import { ROLE_LABELS, canEdit, getRole } from '../lib/members';
+import { TripRow, toTrip } from '../lib/trips';
 
 export function Trips() {
   const { user } = useAuth();
@@ -22,35 +25,31 @@ export function Trips() {
 
     const fetchTrips = async () => {
       try {
+        // Row-level security returns the trips you created and the ones shared with you
         const { data, error } = await supabase
           .from('trips')
           .select('*')
-          .eq('user_id', user.id)
           .order('created_at', { ascending: false });
 
         if (error) throw error;
 
-        setTrips(data.map((trip: any) => ({
-          ...trip,
-          startDate: new Date(trip.start_date),
-          endDate: new Date(trip.end_date),
-          createdAt: new Date(trip.created_at),
-          updatedAt: new Date(trip.updated_at),
-          userId: trip.user_id,
-          mustVisitPlaces: trip.must_visit_places || [],
-          departurePoint: {
-            name: trip.departure_point_name || '',
-            address: trip.departure_point_address || '',
-            latitude: trip.departure_point_latitude || 0,
-            longitude: trip.departure_point_longitude || 0,
-          },
-          returnPoint: {
-            name: trip.return_point_name || '',
-            address: trip.return_point_address || '',
-            latitude: trip.return_point_latitude || 0,
-            longitude: trip.return_point_longitude || 0,
-          },
-        })));
+        const { data: memberships, error: membershipsError } = await supabase
+          .from('trip_members')
+          .select('trip_id, role')
+          .eq('user_id', user.id);
+
+        if (membershipsError) throw membershipsError;
+
+        setTrips((data as TripRow[]).map(row => toTrip(
+          row,
+          getRole(
+            (memberships || [])
+              .filter(membership => membership.trip_id === row.id)
+              .map(membership => ({ role: membership.role as TripRole, userId: user.id })),
+            user.id,
+            row.user_id
+          )
+        )));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load trips');
       } finally {
@@ -192,23 +191,36 @@ export function Trips() {
                         </div>
                         <div className="text-gray-600">
                           {format(trip.startDate, 'MMM d')} - {format(trip.endDate, 'MMM d, yyyy')}
+                          {trip.timeZone !== getBrowserTimeZone() && (
+                            <span className="text-sm text-gray-500"> · {getZoneAbbreviation(trip.timeZone, trip.startDate)}</span>
+                          )}
                         </div>
+                        {trip.userId !== user?.id && (
+                          <div className="flex items-center text-sm text-blue-600 mt-2">
+                            <Users className="h-4 w-4 mr-1" />
+                            Shared with you · {ROLE_LABELS[trip.role]}
+                          </div>
+                        )}
                       </Link>
                       <div className="flex gap-2 ml-4">
-                        <button
-                          onClick={() => setEditingTrip({ id: trip.id, title: trip.title })}
-                          className="p-1 text-gray-400 hover:text-gray-600"
-                          title="Rename trip"
-                        >
-                          <Edit2 className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(trip.id)}
-                          className="p-1 text-gray-400 hover:text-red-600"
-                          title="Delete trip"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
+                        {canEdit(trip.role) && (
+                          <button
+                            onClick={() => setEditingTrip({ id: trip.id, title: trip.title })}
+                            className="p-1 text-gray-400 hover:text-gray-600"
+                            title="Rename trip"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                        )}
+                        {trip.role === 'owner' && (
+                          <button
+                            onClick={() => handleDelete(trip.id)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Delete trip"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -4,16 +4,13 @@ export interface Trip {
   startDate: Date;
   endDate: Date;
   destination: string;
-  userId: string;
+  userId: string;       // Who created the trip
+  role: TripRole;       // The signed-in user's role on it
   pace: 'relaxed' | 'balanced' | 'intensive';
-  mustVisitPlaces: string[];
+  transportationMode: TransportMode;
+  airportBufferMinutes: number;  // Time kept free before a flight leaves and after it lands
+  timeZone: string;              // IANA zone at the destination; dates and times are wall-clock there
 
-  accommodation: {
-    name: string;
-    address: string;
-    latitude?: number;
-    longitude?: number;
-  };
   departurePoint: {
     name: string;
     address: string;
@@ -28,10 +25,90 @@ export interface Trip {
   };
   sameReturnPoint: boolean;
   mustSeeAttractions: string[];
+  daySchedules: Record<number, DaySchedule>;  // Keyed by day index
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type TripRole = 'viewer' | 'editor' | 'owner';
+
+// Someone a trip is shared with. `userId` is null until the invited email
+// has an account.
+export interface TripMember {
+  id: string;
+  email: string;
+  userId: string | null;
+  role: TripRole;
+}
+
+// A link that shows the trip read-only to anyone who has it, without signing in
+export interface TripShareLink {
+  id: string;
+  token: string;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+// A place someone wants on the itinerary, which members vote and comment on
+// to decide what makes it in when not everything fits
+export interface TripCandidate {
+  id: string;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  preferredDay: number | null;  // Day index, or null for any day
+  suggestedBy: string | null;
+  votes: CandidateVote[];
+  comments: CandidateComment[];
+  createdAt: Date;
+}
+
+export interface CandidateVote {
+  userId: string;
+  value: 1 | -1;
+}
+
+export interface CandidateComment {
+  id: string;
+  userId: string | null;
+  authorEmail: string;
+  body: string;
+  createdAt: Date;
+}
+
+// A booked accommodation, covering the nights from checkIn up to checkOut
+export interface TripStay {
+  id: string;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  checkIn: Date;
+  checkOut: Date;
+  confirmationNumber: string | null;
+  timeZone: string | null;  // When it's in a different zone from the trip's
+}
+
+// A flight, train or bus to, from or during the trip. Times are local to
+// the station they refer to, as printed on the ticket; a station's zone is
+// only set when it differs from the trip's.
+export interface TripSegment {
+  id: string;
+  mode: SegmentMode;
+  carrier: string;
+  number: string;
+  departureStation: string;
+  arrivalStation: string;
+  departureTime: Date;
+  arrivalTime: Date;
+  departureTimeZone: string | null;
+  arrivalTimeZone: string | null;
+}
+
+export type SegmentMode = 'flight' | 'train' | 'bus';
+
 export interface Location {
   id: string;
   name: string;
@@ -44,4 +121,38 @@ export interface Location {
   arrival_time?: string;
   rating?: number;
   notes?: string;
+  opening_hours?: OpeningHours | null;
+  transportation_mode?: TransportMode | null;  // Overrides the trip's mode for the leg to the next stop
+  kind?: LocationKind;
+  nights?: number | null;          // Hotels: nights booked, starting the night of day_index
+  price_tier?: PriceTier | null;   // Hotels and meals: 1 ($) to 4 ($$$$)
+  amenities?: string[] | null;
+}
+
+export type LocationKind = 'attraction' | 'hotel' | 'meal' | 'transport_hub';
+
+export type PriceTier = 1 | 2 | 3 | 4;
+
+export type TransportMode = 'walk' | 'transit' | 'drive' | 'bike';
+
+export interface OpeningWindow {
+  open: string;   // HH:MM
+  close: string;  // HH:MM, earlier than `open` when closing after midnight
+}
+
+// Keyed by weekday (0 = Sunday). `null` marks a closed day, a missing key an
+// unknown one.
+export type OpeningHours = Partial<Record<number, OpeningWindow | null>>;
+
+export interface MealSlot {
+  time: string;      // HH:MM
+  duration: number;  // minutes
+}
+
+export interface DaySchedule {
+  startTime: string;  // HH:MM
+  endTime: string;    // HH:MM
+  bufferMinutes: number;
+  lunch: MealSlot | null;
+  dinner: MealSlot | null;
 }
\ No newline at end of file
@@ -0,0 +1,391 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Proxies itinerary prompts to the AI model so its API key never reaches the
+// browser, streaming the answer back as it is generated: a server-sent event
+// per piece of text, `data: {"text": ...}`, or `data: {"error": {code, message}}`
+// if the model fails part way. Callers must be signed in; each user is rate
+// limited per minute and gets a daily token allowance, tracked in the ai_usage
+// table.
+//
+// AI_PROVIDER picks the model: "gemini" (default), or "openai" for any server
+// speaking the OpenAI chat completions API at AI_BASE_URL, e.g. a self-hosted
+// vLLM, llama.cpp or Ollama instance, with AI_MODEL and an optional AI_API_KEY.
+
+type AiErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'BAD_REQUEST'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'API_KEY_INVALID'
+  | 'RESOURCE_EXHAUSTED'
+  | 'UPSTREAM_ERROR';
+
+interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+interface AiError {
+  code: AiErrorCode;
+  message: string;
+}
+
+// What one server-sent event from the model carries
+interface ModelEvent {
+  text?: string;
+  error?: AiError;
+  usage?: { promptTokens?: number; outputTokens?: number };
+}
+
+interface ModelProvider {
+  model: string;
+  missingConfig: string | null;  // Why the provider can't be used, if it can't
+  send(turns: ChatTurn[], responseSchema: unknown): Promise<Response>;
+  toError(status: number, body: unknown): AiError;
+  readEvent(event: unknown): ModelEvent;
+}
+
+const QUOTA_MESSAGE = 'AI generation limit reached. Please try again later or continue with manual planning.';
+const REQUESTS_PER_MINUTE = Number(Deno.env.get('AI_REQUESTS_PER_MINUTE') ?? 6);
+const DAILY_TOKEN_QUOTA = Number(Deno.env.get('AI_DAILY_TOKEN_QUOTA') ?? 200000);
+const MAX_TOKENS = 2048;
+const MAX_PROMPT_CHARS = 50000;
+const CHARS_PER_TOKEN = 4;  // Rough, for reserving prompt tokens before the model counts them
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(status: number, code: AiErrorCode, message: string): Response {
+  return json({ error: { code, message } }, status);
+}
+
+// Gemini reports failures as `{ error: { message, status } }`, both as the
+// response body and as an event part way through a stream
+function toGeminiError(data: { error?: { message?: string; status?: string } } | null): AiError {
+  const message = data?.error?.message || '';
+  const status = data?.error?.status || '';
+  if (message.includes('API_KEY_INVALID') || status === 'PERMISSION_DENIED') {
+    console.error('Gemini rejected the API key:', message);
+    return { code: 'API_KEY_INVALID', message: 'Invalid Google AI API key. Please check your configuration.' };
+  }
+  if (message.includes('RESOURCE_EXHAUSTED') || status === 'RESOURCE_EXHAUSTED') {
+    return { code: 'RESOURCE_EXHAUSTED', message: QUOTA_MESSAGE };
+  }
+  return { code: 'UPSTREAM_ERROR', message: message || 'Failed to generate itinerary' };
+}
+
+function createGeminiProvider(): ModelProvider {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  const model = Deno.env.get('GEMINI_MODEL') ?? 'gemini-2.0-flash';
+  return {
+    model,
+    missingConfig: apiKey ? null : 'Google AI API key is not configured',
+    send: (turns, responseSchema) => fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey!,
+        },
+        body: JSON.stringify({
+          contents: turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+          generationConfig: {
+            temperature: 0.2,
+            topK: 32,
+            topP: 0.9,
+            maxOutputTokens: MAX_TOKENS,
+            responseMimeType: 'application/json',
+            ...(responseSchema ? { responseSchema } : {}),
+          },
+          safetySettings: [
+            {
+              category: "HARM_CATEGORY_HARASSMENT",
+              threshold: "BLOCK_MEDIUM_AND_ABOVE"
+            },
+            {
+              category: "HARM_CATEGORY_HATE_SPEECH",
+              threshold: "BLOCK_MEDIUM_AND_ABOVE"
+            },
+            {
+              category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+              threshold: "BLOCK_MEDIUM_AND_ABOVE"
+            },
+            {
+              category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+              threshold: "BLOCK_MEDIUM_AND_ABOVE"
+            }
+          ]
+        })
+      }
+    ),
+    toError: (_status, body) => toGeminiError(body as Parameters<typeof toGeminiError>[0]),
+    readEvent: (event) => {
+      const data = event as {
+        error?: unknown;
+        usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+        candidates?: { content?: { parts?: { text?: string }[] } }[];
+      };
+      if (data.error) return { error: toGeminiError(data as Parameters<typeof toGeminiError>[0]) };
+      return {
+        text: data.candidates?.[0]?.content?.parts?.[0]?.text,
+        usage: data.usageMetadata && {
+          promptTokens: data.usageMetadata.promptTokenCount,
+          outputTokens: data.usageMetadata.candidatesTokenCount,
+        },
+      };
+    },
+  };
+}
+
+// Gemini's schema dialect uses upper-case type names and an ordering hint
+// that JSON Schema doesn't know about
+function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (typeof schema !== 'object' || schema === null) return schema;
+
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => key !== 'propertyOrdering')
+      .map(([key, value]) => [
+        key,
+        key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value),
+      ])
+  );
+}
+
+function createOpenAICompatibleProvider(): ModelProvider {
+  const baseUrl = Deno.env.get('AI_BASE_URL');
+  const apiKey = Deno.env.get('AI_API_KEY');
+  const model = Deno.env.get('AI_MODEL') ?? '';
+  return {
+    model,
+    missingConfig: baseUrl && model ? null : 'AI model is not configured: set AI_BASE_URL and AI_MODEL',
+    send: (turns, responseSchema) => fetch(`${baseUrl!.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: turns.map(turn => ({
+          role: turn.role === 'model' ? 'assistant' : 'user',
+          content: turn.text,
+        })),
+        temperature: 0.2,
+        top_p: 0.9,
+        max_tokens: MAX_TOKENS,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(responseSchema ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: toJsonSchema(responseSchema) },
+          },
+        } : {}),
+      }),
+    }),
+    toError: (status, body) => {
+      if (status === 401 || status === 403) {
+        console.error('The AI server rejected the API key');
+        return { code: 'API_KEY_INVALID', message: 'Invalid AI API key. Please check your configuration.' };
+      }
+      if (status === 429) {
+        return { code: 'RESOURCE_EXHAUSTED', message: QUOTA_MESSAGE };
+      }
+      const message = (body as { error?: { message?: string } } | null)?.error?.message;
+      return { code: 'UPSTREAM_ERROR', message: message || 'Failed to generate itinerary' };
+    },
+    readEvent: (event) => {
+      const data = event as {
+        error?: { message?: string };
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+        choices?: { delta?: { content?: string } }[];
+      };
+      if (data.error) {
+        return { error: { code: 'UPSTREAM_ERROR', message: data.error.message || 'Failed to generate itinerary' } };
+      }
+      return {
+        text: data.choices?.[0]?.delta?.content,
+        usage: data.usage && { promptTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens },
+      };
+    },
+  };
+}
+
+function getProvider(): ModelProvider | null {
+  switch (Deno.env.get('AI_PROVIDER') ?? 'gemini') {
+    case 'gemini':
+      return createGeminiProvider();
+    case 'openai':
+      return createOpenAICompatibleProvider();
+    default:
+      return null;
+  }
+}
+
+function isChatTurns(value: unknown): value is ChatTurn[] {
+  return Array.isArray(value) && value.length > 0 && value.every(turn =>
+    typeof turn === 'object' && turn !== null &&
+    (turn.role === 'user' || turn.role === 'model') &&
+    typeof turn.text === 'string'
+  );
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(405, 'BAD_REQUEST', 'Method not allowed');
+  }
+
+  const provider = getProvider();
+  if (!provider || provider.missingConfig) {
+    return errorResponse(500, 'API_KEY_INVALID', provider?.missingConfig ?? 'Unknown AI provider');
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return errorResponse(401, 'UNAUTHENTICATED', 'Please sign in to generate itineraries');
+  }
+
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return errorResponse(401, 'UNAUTHENTICATED', 'Please sign in to generate itineraries');
+  }
+
+  let body: { turns?: unknown; responseSchema?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse(400, 'BAD_REQUEST', 'Request body must be JSON');
+  }
+  if (!isChatTurns(body.turns)) {
+    return errorResponse(400, 'BAD_REQUEST', 'turns must be a non-empty list of { role, text }');
+  }
+  const turns = body.turns;
+  if (turns.reduce((total, turn) => total + turn.text.length, 0) > MAX_PROMPT_CHARS) {
+    return errorResponse(400, 'BAD_REQUEST', 'Prompt is too long');
+  }
+
+  // Usage rows are only writable with the service role
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  // Reserves the most the request can use, so failed and abandoned calls still
+  // count, and checks the limits in the same statement
+  const reserved = {
+    prompt_tokens: Math.ceil(turns.reduce((total, turn) => total + turn.text.length, 0) / CHARS_PER_TOKEN),
+    output_tokens: MAX_TOKENS,
+  };
+  const { data: reservation, error: reserveError } = await admin
+    .rpc('reserve_ai_usage', {
+      usage_user_id: user.id,
+      usage_model: provider.model,
+      reserved_prompt_tokens: reserved.prompt_tokens,
+      reserved_output_tokens: reserved.output_tokens,
+      requests_per_minute: REQUESTS_PER_MINUTE,
+      daily_token_quota: DAILY_TOKEN_QUOTA,
+    })
+    .single();
+  if (reserveError) {
+    return errorResponse(500, 'UPSTREAM_ERROR', reserveError.message);
+  }
+  const { usage_id: usageId, limit_hit: limitHit } = reservation as { usage_id: string | null; limit_hit: string | null };
+  if (limitHit === 'RATE_LIMITED') {
+    return errorResponse(429, 'RATE_LIMITED', 'Too many itinerary requests. Please wait a minute and try again.');
+  }
+  if (limitHit === 'QUOTA_EXCEEDED' || !usageId) {
+    return errorResponse(429, 'QUOTA_EXCEEDED', "You've used today's AI generation allowance. Please try again tomorrow or continue with manual planning.");
+  }
+
+  const response = await provider.send(turns, body.responseSchema);
+
+  if (!response.ok) {
+    // Nothing was generated, so only the request counts
+    await admin.from('ai_usage').update({ prompt_tokens: 0, output_tokens: 0 }).eq('id', usageId);
+    const { code, message } = provider.toError(response.status, await response.json().catch(() => null));
+    const status = code === 'API_KEY_INVALID' ? 500 : code === 'RESOURCE_EXHAUSTED' ? 429 : 502;
+    return errorResponse(status, code, message);
+  }
+
+  // Re-emit just the text of each server-sent event, and the model's errors as
+  // typed ones. Token counts arrive with the events and replace the
+  // reservation once the stream ends; a stream the client abandons keeps
+  // whichever is larger.
+  let buffer = '';
+  let usage: NonNullable<ModelEvent['usage']> = {};
+  const encoder = new TextEncoder();
+  const send = (data: unknown) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+
+  const recordUsage = async (abandoned: boolean) => {
+    const counted = {
+      prompt_tokens: usage.promptTokens ?? reserved.prompt_tokens,
+      output_tokens: usage.outputTokens ?? reserved.output_tokens,
+    };
+    const { error } = await admin
+      .from('ai_usage')
+      .update(abandoned
+        ? {
+            prompt_tokens: Math.max(counted.prompt_tokens, reserved.prompt_tokens),
+            output_tokens: Math.max(counted.output_tokens, reserved.output_tokens),
+          }
+        : counted)
+      .eq('id', usageId);
+    if (error) console.error('Failed to record AI usage:', error.message);
+  };
+
+  const handleLine = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    // OpenAI-compatible servers end the stream with `data: [DONE]`
+    if (!line.startsWith('data:') || line.slice(5).trim() === '[DONE]') return;
+    let event: ModelEvent;
+    try {
+      event = provider.readEvent(JSON.parse(line.slice(5)));
+    } catch {
+      console.error('Skipping malformed model event:', line.slice(0, 200));
+      return;
+    }
+    if (event.error) {
+      controller.enqueue(send({ error: event.error }));
+      return;
+    }
+    usage = event.usage ?? usage;
+    if (event.text) controller.enqueue(send({ text: event.text }));
+  };
+
+  const stream = response.body!
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(new TransformStream<string, Uint8Array>({
+      transform(chunk, controller) {
+        buffer += chunk;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop()!;
+        lines.forEach(line => handleLine(line, controller));
+      },
+      async flush(controller) {
+        handleLine(buffer, controller);
+        await recordUsage(false);
+      },
+      async cancel() {
+        await recordUsage(true);
+      },
+    }));
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream; charset=utf-8' },
+  });
+});
@@ -0,0 +1,125 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Adds someone to a trip by email. The membership row is written as the
+// caller, so RLS decides whether they may invite (only owners can). People
+// without an account yet are sent a sign-up invite; the row is linked to
+// their account when they join.
+
+const ROLES = ['viewer', 'editor', 'owner'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SITE_URL = Deno.env.get('SITE_URL');
+const INVITES_PER_HOUR = Number(Deno.env.get('INVITES_PER_HOUR') ?? 20);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(status: number, message: string): Response {
+  return json({ error: { message } }, status);
+}
+
+// Invite links may only lead back to this app. Anything else falls back to
+// the project's own site URL.
+function safeRedirect(redirectTo: unknown): string | undefined {
+  if (!SITE_URL || typeof redirectTo !== 'string') return undefined;
+  try {
+    return new URL(redirectTo).origin === new URL(SITE_URL).origin ? redirectTo : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(405, 'Method not allowed');
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return errorResponse(401, 'Please sign in to invite people');
+  }
+
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return errorResponse(401, 'Please sign in to invite people');
+  }
+
+  let body: { tripId?: unknown; email?: unknown; role?: unknown; redirectTo?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse(400, 'Request body must be JSON');
+  }
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (typeof body.tripId !== 'string' || !EMAIL_PATTERN.test(email) || !ROLES.includes(body.role as string)) {
+    return errorResponse(400, 'tripId, a valid email and a role of viewer, editor or owner are required');
+  }
+
+  // Counted from a log rather than trip_members, so removing people doesn't
+  // make room for more invites
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { count, error: countError } = await admin
+    .from('trip_invites_sent')
+    .select('id', { count: 'exact', head: true })
+    .eq('invited_by', user.id)
+    .gte('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+  if (countError) {
+    console.error('Error checking invite rate limit:', countError);
+    return errorResponse(500, 'Could not send the invite. Please try again.');
+  }
+  if ((count ?? 0) >= INVITES_PER_HOUR) {
+    return errorResponse(429, 'You\'ve sent a lot of invites recently. Please wait a while and try again.');
+  }
+
+  const { data: member, error: insertError } = await userClient
+    .from('trip_members')
+    .insert({ trip_id: body.tripId, email, role: body.role, invited_by: user.id })
+    .select()
+    .single();
+
+  if (insertError) {
+    // 23505: unique violation on (trip_id, email); 42501: denied by RLS
+    if (insertError.code === '23505') {
+      return errorResponse(409, `${email} is already on this trip`);
+    }
+    if (insertError.code === '42501') {
+      return errorResponse(403, 'Only the trip\'s owners can invite people');
+    }
+    console.error('Error adding member:', insertError);
+    return errorResponse(500, 'Could not send the invite. Please try again.');
+  }
+
+  const { error: logError } = await admin
+    .from('trip_invites_sent')
+    .insert({ invited_by: user.id, trip_id: member.trip_id, email });
+  if (logError) {
+    console.error('Error logging invite:', logError);
+  }
+
+  // Linked on insert when the email already has a confirmed account
+  if (!member.user_id) {
+    const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+      redirectTo: safeRedirect(body.redirectTo),
+    });
+    if (inviteError) {
+      console.error('Error sending invite email:', inviteError);
+    }
+  }
+
+  return json({ member });
+});
@@ -0,0 +1,17 @@
+/*
+  # Add pinned stop constraints
+
+  1. Changes
+    - Add new columns to trip_locations table:
+      - `pinned_day` (integer): Day index the optimizer must keep the stop on
+      - `pinned_position` (integer): Position within that day the optimizer must keep
+      - `pinned_time` (text): Time of day, HH:mm, the visit must start at on that day
+
+  2. Security
+    - Existing RLS policies will cover the new columns
+*/
+
+ALTER TABLE trip_locations
+ADD COLUMN pinned_day integer CHECK (pinned_day >= 0),
+ADD COLUMN pinned_position integer CHECK (pinned_position >= 0),
+ADD COLUMN pinned_time text CHECK (pinned_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$');
@@ -0,0 +1,15 @@
+/*
+  # Add opening hours to trip locations
+
+  1. Changes
+    - Add new column to trip_locations table:
+      - `opening_hours` (jsonb): Opening window per weekday, keyed 0 (Sunday) to 6,
+        e.g. {"1": {"open": "09:00", "close": "18:00"}, "2": null}. A null day is
+        closed; a missing day is unknown
+
+  2. Security
+    - Existing RLS policies will cover the new column
+*/
+
+ALTER TABLE trip_locations
+ADD COLUMN opening_hours jsonb;
@@ -0,0 +1,16 @@
+/*
+  # Add per-day schedule settings
+
+  1. Changes
+    - Add new column to trips table:
+      - `day_schedules` (jsonb): Schedule settings keyed by day index, e.g.
+        {"0": {"startTime": "09:00", "endTime": "21:00", "bufferMinutes": 10,
+        "lunch": {"time": "12:30", "duration": 60}, "dinner": null}}.
+        Days without an entry use the app defaults
+
+  2. Security
+    - Existing RLS policies will cover the new column
+*/
+
+ALTER TABLE trips
+ADD COLUMN day_schedules jsonb NOT NULL DEFAULT '{}';
@@ -0,0 +1,20 @@
+/*
+  # Restore transport preferences
+
+  1. Changes
+    - Add new column to trips table:
+      - `transportation_mode` (text): How the group gets around by default
+        (walk, transit, drive, bike)
+    - Add new column to trip_locations table:
+      - `transportation_mode` (text): Overrides the trip's mode for the leg
+        from this stop to the next one; null uses the trip's mode
+
+  2. Security
+    - Existing RLS policies will cover the new columns
+*/
+
+ALTER TABLE trips
+ADD COLUMN transportation_mode text NOT NULL DEFAULT 'transit' CHECK (transportation_mode IN ('walk', 'transit', 'drive', 'bike'));
+
+ALTER TABLE trip_locations
+ADD COLUMN transportation_mode text CHECK (transportation_mode IN ('walk', 'transit', 'drive', 'bike'));
@@ -0,0 +1,94 @@
+/*
+  # Track AI usage per user
+
+  1. New Tables
+    - `ai_usage`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `model` (text): Model the request was sent to
+      - `prompt_tokens` (integer): Tokens in the prompt; an estimate until the model answers
+      - `output_tokens` (integer): Tokens in the answer; the most it may use until the model answers
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `reserve_ai_usage(...)`: Checks a user's per-minute rate limit and daily
+      token allowance and records the request in one step
+
+  3. Security
+    - Enable RLS on `ai_usage` table
+    - Add policy for authenticated users to read their own usage
+    - Rows are only written by the generate-itinerary Edge Function using the
+      service role, so there are no insert or update policies
+*/
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  model text NOT NULL,
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  output_tokens integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Rate limit and quota checks look up a user's recent rows
+CREATE INDEX IF NOT EXISTS ai_usage_user_id_created_at_idx ON ai_usage (user_id, created_at);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for users to read their own usage
+CREATE POLICY "Users can read their own AI usage"
+  ON ai_usage
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Checks the limits and records the request in one go, with the user's other
+-- requests waiting on a lock, so parallel requests can't all slip under the
+-- limits. The row reserves the tokens the request may use; requests still in
+-- flight count towards the allowance. Returns the new row's id, or the limit
+-- that was hit.
+CREATE OR REPLACE FUNCTION reserve_ai_usage(
+  usage_user_id uuid,
+  usage_model text,
+  reserved_prompt_tokens integer,
+  reserved_output_tokens integer,
+  requests_per_minute integer,
+  daily_token_quota integer
+)
+RETURNS TABLE (usage_id uuid, limit_hit text)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  recent_requests integer;
+  tokens_used bigint;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || usage_user_id::text));
+
+  SELECT count(*) INTO recent_requests
+  FROM ai_usage
+  WHERE user_id = usage_user_id AND created_at >= now() - interval '1 minute';
+  IF recent_requests >= requests_per_minute THEN
+    RETURN QUERY SELECT NULL::uuid, 'RATE_LIMITED'::text;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(prompt_tokens + output_tokens), 0) INTO tokens_used
+  FROM ai_usage
+  WHERE user_id = usage_user_id
+  AND created_at >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  IF tokens_used >= daily_token_quota THEN
+    RETURN QUERY SELECT NULL::uuid, 'QUOTA_EXCEEDED'::text;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO ai_usage (user_id, model, prompt_tokens, output_tokens)
+  VALUES (usage_user_id, usage_model, reserved_prompt_tokens, reserved_output_tokens)
+  RETURNING ai_usage.id, NULL::text;
+END;
+$$;
+
+-- Only the Edge Function, with the service role, reserves usage
+REVOKE ALL ON FUNCTION reserve_ai_usage(uuid, text, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_ai_usage(uuid, text, integer, integer, integer, integer) TO service_role;
@@ -0,0 +1,30 @@
+/*
+  # Add location kinds and hotel stays
+
+  1. Changes
+    - Add new columns to trip_locations table:
+      - `kind` (text): What the stop is (attraction, hotel, meal, transport_hub)
+      - `nights` (integer): For hotels, how many nights are booked, starting
+        the night of the stop's day
+      - `price_tier` (smallint): 1 ($) to 4 ($$$$), for hotels and meals
+      - `amenities` (text[]): For hotels, e.g. Free WiFi, Pool
+    - Existing stops named "[HOTEL] ..." become one-night hotel stays and lose
+      the prefix; a price range like "$$" leading their notes sets the tier
+
+  2. Security
+    - Existing RLS policies will cover the new columns
+*/
+
+ALTER TABLE trip_locations
+ADD COLUMN kind text NOT NULL DEFAULT 'attraction' CHECK (kind IN ('attraction', 'hotel', 'meal', 'transport_hub')),
+ADD COLUMN nights integer CHECK (nights >= 1),
+ADD COLUMN price_tier smallint CHECK (price_tier BETWEEN 1 AND 4),
+ADD COLUMN amenities text[];
+
+UPDATE trip_locations
+SET
+  kind = 'hotel',
+  nights = 1,
+  price_tier = CASE WHEN notes ~ '^\s*\${1,4}([^$]|$)' THEN length(substring(notes from '^\s*(\$+)')) END,
+  name = btrim(regexp_replace(name, '^\s*\[hotel\]', '', 'i'))
+WHERE name ~* '^\s*\[hotel\]';
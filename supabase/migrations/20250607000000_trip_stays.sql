@@ -0,0 +1,116 @@
+/*
+  # Add trip stays
+
+  1. New Tables
+    - `trip_stays`
+      - `id` (uuid, primary key)
+      - `trip_id` (uuid, foreign key to trips)
+      - `name` (text)
+      - `address` (text)
+      - `latitude` (double precision)
+      - `longitude` (double precision)
+      - `check_in` (date): First night of the stay
+      - `check_out` (date): Morning the stay ends, after check_in
+      - `confirmation_number` (text)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Copy each trip's accommodation into a stay covering the whole trip
+
+  3. Security
+    - Enable RLS on `trip_stays` table
+    - Add policies for authenticated users to manage stays on their own trips
+*/
+
+CREATE TABLE IF NOT EXISTS trip_stays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  address text NOT NULL,
+  latitude double precision NOT NULL,
+  longitude double precision NOT NULL,
+  check_in date NOT NULL,
+  check_out date NOT NULL,
+  confirmation_number text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (check_out > check_in)
+);
+
+CREATE INDEX IF NOT EXISTS trip_stays_trip_id_idx ON trip_stays (trip_id, check_in);
+
+ALTER TABLE trip_stays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own trip stays"
+  ON trip_stays
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_stays.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create stays on their own trips"
+  ON trip_stays
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_stays.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own trip stays"
+  ON trip_stays
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_stays.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_stays.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own trip stays"
+  ON trip_stays
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_stays.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_trip_stays_updated_at
+  BEFORE UPDATE ON trip_stays
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO trip_stays (trip_id, name, address, latitude, longitude, check_in, check_out)
+SELECT
+  id,
+  accommodation_name,
+  COALESCE(NULLIF(accommodation_address, ''), accommodation_name),
+  COALESCE(accommodation_latitude, 0),
+  COALESCE(accommodation_longitude, 0),
+  start_date,
+  end_date
+FROM trips
+WHERE NULLIF(accommodation_name, '') IS NOT NULL
+AND end_date > start_date;
@@ -0,0 +1,106 @@
+/*
+  # Add trip segments
+
+  1. New Tables
+    - `trip_segments`
+      - `id` (uuid, primary key)
+      - `trip_id` (uuid, foreign key to trips)
+      - `mode` (text): flight, train or bus
+      - `carrier` (text)
+      - `number` (text): Flight or train number
+      - `departure_station` (text)
+      - `arrival_station` (text)
+      - `departure_time` (timestamp): Local time at the departure station
+      - `arrival_time` (timestamp): Local time at the arrival station
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `airport_buffer_minutes` to `trips`: time kept free around flights
+
+  3. Security
+    - Enable RLS on `trip_segments` table
+    - Add policies for authenticated users to manage segments on their own trips
+*/
+
+ALTER TABLE trips
+ADD COLUMN IF NOT EXISTS airport_buffer_minutes integer NOT NULL DEFAULT 120
+  CHECK (airport_buffer_minutes BETWEEN 0 AND 600);
+
+CREATE TABLE IF NOT EXISTS trip_segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  mode text NOT NULL CHECK (mode IN ('flight', 'train', 'bus')),
+  carrier text NOT NULL DEFAULT '',
+  number text NOT NULL DEFAULT '',
+  departure_station text NOT NULL,
+  arrival_station text NOT NULL,
+  departure_time timestamp NOT NULL,
+  arrival_time timestamp NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_segments_trip_id_idx ON trip_segments (trip_id, departure_time);
+
+ALTER TABLE trip_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own trip segments"
+  ON trip_segments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_segments.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create segments on their own trips"
+  ON trip_segments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_segments.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own trip segments"
+  ON trip_segments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_segments.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_segments.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own trip segments"
+  ON trip_segments
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM trips
+      WHERE trips.id = trip_segments.trip_id
+      AND trips.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_trip_segments_updated_at
+  BEFORE UPDATE ON trip_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,25 @@
+/*
+  # Add time zones
+
+  1. Changes
+    - Add `time_zone` to `trips`: IANA zone at the destination. Trip dates,
+      arrival times and day schedules are wall-clock times there. Trips
+      without one use the viewer's zone, as before.
+    - Add `time_zone` to `trip_stays`, for stays in a different zone from
+      the trip's
+    - Add `departure_time_zone` and `arrival_time_zone` to `trip_segments`,
+      for stations in a different zone from the trip's
+
+  2. Security
+    - Existing RLS policies will cover the new columns
+*/
+
+ALTER TABLE trips
+ADD COLUMN IF NOT EXISTS time_zone text;
+
+ALTER TABLE trip_stays
+ADD COLUMN IF NOT EXISTS time_zone text;
+
+ALTER TABLE trip_segments
+ADD COLUMN IF NOT EXISTS departure_time_zone text,
+ADD COLUMN IF NOT EXISTS arrival_time_zone text;
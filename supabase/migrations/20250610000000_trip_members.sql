@@ -0,0 +1,369 @@
+/*
+  # Add trip members
+
+  1. New Tables
+    - `trip_members`
+      - `id` (uuid, primary key)
+      - `trip_id` (uuid, foreign key to trips)
+      - `email` (text): Who was invited, lowercased
+      - `user_id` (uuid, foreign key to auth.users): Set once that email has an account
+      - `role` (text): viewer, editor or owner
+      - `invited_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `trip_invites_sent`
+      - `id` (uuid, primary key)
+      - `invited_by` (uuid, foreign key to auth.users)
+      - `trip_id` (uuid, foreign key to trips)
+      - `email` (text)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Every existing trip gets its creator as an owner
+    - New trips get their creator as an owner when they're created
+    - Invites are matched to accounts by email once the email is confirmed,
+      both for existing accounts and for ones that sign up later
+    - A trip's creator can't be changed
+
+  3. Security
+    - Enable RLS on `trip_members` table
+    - Replace the owner-only policies on `trips`, `trip_locations`,
+      `trip_stays` and `trip_segments` with ones based on membership:
+      members can read, editors and owners can change the itinerary, and
+      only owners can delete the trip or manage its members
+    - Members can leave a trip, except for its creator
+    - Owners can change other members' roles, but not the creator's, and
+      nobody can change which email or account a membership is for. The
+      account is always looked up from the email, never taken from the client.
+    - Enable RLS on `trip_invites_sent` table. Rows are only written and read
+      by the invite-member Edge Function using the service role, to rate-limit
+      invites, so there are no policies
+*/
+
+CREATE TABLE IF NOT EXISTS trip_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor', 'owner')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (trip_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS trip_members_user_id_idx ON trip_members (user_id);
+CREATE INDEX IF NOT EXISTS trip_members_email_idx ON trip_members (email);
+
+-- Every invite made through the invite-member Edge Function, kept even when
+-- the member is removed so removing people doesn't reset the rate limit
+CREATE TABLE IF NOT EXISTS trip_invites_sent (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invited_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  trip_id uuid REFERENCES trips(id) ON DELETE SET NULL,
+  email text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_invites_sent_invited_by_created_at_idx ON trip_invites_sent (invited_by, created_at);
+
+ALTER TABLE trip_invites_sent ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_trip_members_updated_at
+  BEFORE UPDATE ON trip_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Emails are compared lowercased, and an invite for an existing account is
+-- linked to it straight away. The account is found from the email rather than
+-- taken from the insert, and only confirmed emails count, so nobody can be
+-- added without owning the address.
+CREATE OR REPLACE FUNCTION link_trip_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.email := lower(trim(NEW.email));
+  NEW.user_id := NULL;
+  SELECT id INTO NEW.user_id
+  FROM auth.users
+  WHERE lower(email) = NEW.email
+  AND email_confirmed_at IS NOT NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_trip_member_to_user
+  BEFORE INSERT ON trip_members
+  FOR EACH ROW
+  EXECUTE FUNCTION link_trip_member();
+
+-- Invites sent before someone signed up are linked once they confirm their
+-- email, whether by the confirmation link or by accepting the invite
+CREATE OR REPLACE FUNCTION claim_trip_invites()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.email_confirmed_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE trip_members
+  SET user_id = NEW.id
+  WHERE user_id IS NULL
+  AND email = lower(NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER claim_trip_invites_on_confirm
+  AFTER INSERT OR UPDATE OF email_confirmed_at, email ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION claim_trip_invites();
+
+-- The creator of a trip is its first owner
+CREATE OR REPLACE FUNCTION add_trip_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO trip_members (trip_id, email, user_id, role, invited_by)
+  SELECT NEW.id, lower(email), id, 'owner', id
+  FROM auth.users
+  WHERE id = NEW.user_id
+  ON CONFLICT (trip_id, email) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_trip_owner_on_create
+  AFTER INSERT ON trips
+  FOR EACH ROW
+  EXECUTE FUNCTION add_trip_owner();
+
+-- Editors can update trips but not who created them, since the creator
+-- always stays on as an owner
+CREATE OR REPLACE FUNCTION keep_trip_creator()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A trip''s creator can''t be changed' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_trip_creator_on_update
+  BEFORE UPDATE OF user_id ON trips
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_trip_creator();
+
+INSERT INTO trip_members (trip_id, email, user_id, role, invited_by)
+SELECT trips.id, lower(users.email), users.id, 'owner', users.id
+FROM trips
+JOIN auth.users AS users ON users.id = trips.user_id
+ON CONFLICT (trip_id, email) DO NOTHING;
+
+-- The current user's role on a trip, or null. Security definer so policies on
+-- trip_members can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION trip_role(target_trip_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+  FROM trip_members
+  WHERE trip_id = target_trip_id
+  AND user_id = auth.uid()
+  ORDER BY CASE role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_trip(target_trip_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT trip_role(target_trip_id) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_trip(target_trip_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT trip_role(target_trip_id) IN ('editor', 'owner');
+$$;
+
+CREATE OR REPLACE FUNCTION is_trip_owner(target_trip_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT trip_role(target_trip_id) = 'owner';
+$$;
+
+ALTER TABLE trip_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can see who else is on their trips"
+  ON trip_members
+  FOR SELECT
+  TO authenticated
+  USING (can_view_trip(trip_id));
+
+CREATE POLICY "Owners can invite members"
+  ON trip_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_trip_owner(trip_id) AND invited_by = auth.uid());
+
+-- Only the role can be changed, and never the creator's
+REVOKE UPDATE ON trip_members FROM anon, authenticated;
+GRANT UPDATE (role) ON trip_members TO authenticated;
+
+CREATE POLICY "Owners can change member roles"
+  ON trip_members
+  FOR UPDATE
+  TO authenticated
+  USING (
+    is_trip_owner(trip_id)
+    AND user_id IS DISTINCT FROM (SELECT trips.user_id FROM trips WHERE trips.id = trip_members.trip_id)
+  )
+  WITH CHECK (
+    is_trip_owner(trip_id)
+    AND user_id IS DISTINCT FROM (SELECT trips.user_id FROM trips WHERE trips.id = trip_members.trip_id)
+  );
+
+-- The trip's creator always stays on as an owner
+CREATE POLICY "Owners can remove members and members can leave"
+  ON trip_members
+  FOR DELETE
+  TO authenticated
+  USING (
+    (is_trip_owner(trip_id) OR user_id = auth.uid())
+    AND user_id IS DISTINCT FROM (SELECT trips.user_id FROM trips WHERE trips.id = trip_members.trip_id)
+  );
+
+DROP POLICY IF EXISTS "Users can read their own trips" ON trips;
+DROP POLICY IF EXISTS "Users can update their own trips" ON trips;
+DROP POLICY IF EXISTS "Users can delete their own trips" ON trips;
+
+CREATE POLICY "Members can read trips"
+  ON trips
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR can_view_trip(id));
+
+CREATE POLICY "Editors can update trips"
+  ON trips
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_trip(id))
+  WITH CHECK (can_edit_trip(id));
+
+CREATE POLICY "Owners can delete trips"
+  ON trips
+  FOR DELETE
+  TO authenticated
+  USING (is_trip_owner(id));
+
+DROP POLICY IF EXISTS "Users can read their own trip locations" ON trip_locations;
+DROP POLICY IF EXISTS "Users can create locations for their trips" ON trip_locations;
+DROP POLICY IF EXISTS "Users can update their trip locations" ON trip_locations;
+DROP POLICY IF EXISTS "Users can delete their trip locations" ON trip_locations;
+
+CREATE POLICY "Members can read trip locations"
+  ON trip_locations
+  FOR SELECT
+  TO authenticated
+  USING (can_view_trip(trip_id));
+
+CREATE POLICY "Editors can create trip locations"
+  ON trip_locations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can update trip locations"
+  ON trip_locations
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_trip(trip_id))
+  WITH CHECK (can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete trip locations"
+  ON trip_locations
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_trip(trip_id));
+
+DROP POLICY IF EXISTS "Users can read their own trip stays" ON trip_stays;
+DROP POLICY IF EXISTS "Users can create stays on their own trips" ON trip_stays;
+DROP POLICY IF EXISTS "Users can update their own trip stays" ON trip_stays;
+DROP POLICY IF EXISTS "Users can delete their own trip stays" ON trip_stays;
+
+CREATE POLICY "Members can read trip stays"
+  ON trip_stays
+  FOR SELECT
+  TO authenticated
+  USING (can_view_trip(trip_id));
+
+CREATE POLICY "Editors can create trip stays"
+  ON trip_stays
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can update trip stays"
+  ON trip_stays
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_trip(trip_id))
+  WITH CHECK (can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete trip stays"
+  ON trip_stays
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_trip(trip_id));
+
+DROP POLICY IF EXISTS "Users can read their own trip segments" ON trip_segments;
+DROP POLICY IF EXISTS "Users can create segments on their own trips" ON trip_segments;
+DROP POLICY IF EXISTS "Users can update their own trip segments" ON trip_segments;
+DROP POLICY IF EXISTS "Users can delete their own trip segments" ON trip_segments;
+
+CREATE POLICY "Members can read trip segments"
+  ON trip_segments
+  FOR SELECT
+  TO authenticated
+  USING (can_view_trip(trip_id));
+
+CREATE POLICY "Editors can create trip segments"
+  ON trip_segments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can update trip segments"
+  ON trip_segments
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_trip(trip_id))
+  WITH CHECK (can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete trip segments"
+  ON trip_segments
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_trip(trip_id));
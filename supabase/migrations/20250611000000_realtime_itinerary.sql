@@ -0,0 +1,138 @@
+/*
+  # Realtime itinerary editing
+
+  1. Changes
+    - Add `revision` to `trip_locations`: counts saved edits to a stop. Saves
+      only apply when the stop is still at the revision the editor last saw,
+      so one collaborator can't overwrite another's change unseen.
+    - Add `updated_by` to `trip_locations`: who saved the stop last
+    - Add trigger `bump_trip_location_revision` keeping both up to date
+    - Publish `trip_locations` to Supabase Realtime
+
+  2. New Functions
+    - `save_trip_stops(save_trip_id, added_stops, changed_stops, removed_stops)`:
+      Saves an itinerary's added, changed and removed stops in one
+      transaction. If any changed or removed stop is no longer at the revision
+      it was edited from, nothing is saved and those stops' ids come back as
+      `stale`; otherwise the saved stops' new revisions come back. Runs with
+      the caller's permissions.
+
+  3. Security
+    - Realtime checks the existing RLS policies before sending an insert or
+      update, so only the trip's members receive it
+    - Deletes can't be checked against RLS once the row is gone, so they're
+      sent to every subscriber with only the stop's id. Clients can't tell
+      which trip a delete was for and have to ignore ids they don't have.
+*/
+
+ALTER TABLE trip_locations
+ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- Neither column is taken from the client, on insert or update
+CREATE OR REPLACE FUNCTION bump_trip_location_revision()
+RETURNS trigger AS $$
+BEGIN
+  NEW.revision := CASE WHEN TG_OP = 'UPDATE' THEN OLD.revision + 1 ELSE 1 END;
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_trip_location_revision ON trip_locations;
+CREATE TRIGGER bump_trip_location_revision
+  BEFORE INSERT OR UPDATE ON trip_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_trip_location_revision();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'trip_locations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE trip_locations;
+  END IF;
+END $$;
+
+-- Stops come in as trip_locations rows in JSON. Changed and removed ones also
+-- carry the revision they were edited from. Every stop of the trip is locked
+-- while the revisions are checked, so nobody can save in between.
+CREATE OR REPLACE FUNCTION save_trip_stops(
+  save_trip_id uuid,
+  added_stops jsonb,
+  changed_stops jsonb,
+  removed_stops jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  stale jsonb;
+  revisions jsonb;
+BEGIN
+  PERFORM 1 FROM trip_locations WHERE trip_id = save_trip_id FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(expected.id), '[]'::jsonb) INTO stale
+  FROM jsonb_to_recordset(changed_stops || removed_stops) AS expected(id uuid, revision integer)
+  LEFT JOIN trip_locations AS current
+    ON current.id = expected.id AND current.trip_id = save_trip_id
+  WHERE current.revision IS DISTINCT FROM expected.revision;
+
+  IF jsonb_array_length(stale) > 0 THEN
+    RETURN jsonb_build_object('stale', stale, 'revisions', '{}'::jsonb);
+  END IF;
+
+  INSERT INTO trip_locations (
+    id, trip_id, name, address, latitude, longitude, day_index, estimated_duration, arrival_time, rating,
+    notes, pinned_day, pinned_position, pinned_time, opening_hours, transportation_mode, kind, nights,
+    price_tier, amenities
+  )
+  SELECT
+    stop.id, save_trip_id, stop.name, stop.address, stop.latitude, stop.longitude, stop.day_index,
+    stop.estimated_duration, stop.arrival_time, stop.rating, stop.notes, stop.pinned_day, stop.pinned_position,
+    stop.pinned_time, stop.opening_hours, stop.transportation_mode, COALESCE(stop.kind, 'attraction'), stop.nights,
+    stop.price_tier, stop.amenities
+  FROM jsonb_populate_recordset(NULL::trip_locations, added_stops) AS stop;
+
+  UPDATE trip_locations
+  SET
+    name = stop.name,
+    address = stop.address,
+    latitude = stop.latitude,
+    longitude = stop.longitude,
+    day_index = stop.day_index,
+    estimated_duration = stop.estimated_duration,
+    arrival_time = stop.arrival_time,
+    rating = stop.rating,
+    notes = stop.notes,
+    pinned_day = stop.pinned_day,
+    pinned_position = stop.pinned_position,
+    pinned_time = stop.pinned_time,
+    opening_hours = stop.opening_hours,
+    transportation_mode = stop.transportation_mode,
+    kind = COALESCE(stop.kind, trip_locations.kind),
+    nights = stop.nights,
+    price_tier = stop.price_tier,
+    amenities = stop.amenities
+  FROM jsonb_populate_recordset(NULL::trip_locations, changed_stops) AS stop
+  WHERE trip_locations.id = stop.id
+  AND trip_locations.trip_id = save_trip_id;
+
+  DELETE FROM trip_locations
+  WHERE trip_id = save_trip_id
+  AND id IN (SELECT removed.id FROM jsonb_to_recordset(removed_stops) AS removed(id uuid));
+
+  SELECT COALESCE(jsonb_object_agg(id, revision), '{}'::jsonb) INTO revisions
+  FROM trip_locations
+  WHERE trip_id = save_trip_id
+  AND id IN (SELECT saved.id FROM jsonb_to_recordset(added_stops || changed_stops) AS saved(id uuid));
+
+  RETURN jsonb_build_object('stale', '[]'::jsonb, 'revisions', revisions);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_trip_stops(uuid, jsonb, jsonb, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_trip_stops(uuid, jsonb, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,167 @@
+/*
+  # Add public share links
+
+  1. New Tables
+    - `trip_share_links`
+      - `id` (uuid, primary key)
+      - `trip_id` (uuid, foreign key to trips)
+      - `token` (text, unique): The secret part of the link
+      - `expires_at` (timestamptz): When the link stops working, or null for never
+      - `revoked_at` (timestamptz): Set when an owner turns the link off
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `get_shared_trip(share_token)`: The trip, its stops, stays and travel
+      segments for a working link, or null. Callable without signing in.
+      Only the columns the shared view shows are returned, so who made or
+      edited the trip and booking confirmation numbers stay private.
+
+  3. Security
+    - Enable RLS on `trip_share_links` table
+    - Only the trip's owners can see, create, revoke or delete its links
+    - Anyone with a link reads the trip through `get_shared_trip` only; no
+      table policies are opened to anonymous users
+*/
+
+CREATE TABLE IF NOT EXISTS trip_share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_share_links_trip_id_idx ON trip_share_links (trip_id);
+
+ALTER TABLE trip_share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can see share links"
+  ON trip_share_links
+  FOR SELECT
+  TO authenticated
+  USING (is_trip_owner(trip_id));
+
+CREATE POLICY "Owners can create share links"
+  ON trip_share_links
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_trip_owner(trip_id) AND created_by = auth.uid());
+
+CREATE POLICY "Owners can revoke share links"
+  ON trip_share_links
+  FOR UPDATE
+  TO authenticated
+  USING (is_trip_owner(trip_id))
+  WITH CHECK (is_trip_owner(trip_id));
+
+CREATE POLICY "Owners can delete share links"
+  ON trip_share_links
+  FOR DELETE
+  TO authenticated
+  USING (is_trip_owner(trip_id));
+
+-- Security definer so it can read past the membership policies, which is why
+-- it checks the token itself and returns nothing but the linked trip. Columns
+-- are listed one by one so new ones aren't shared until they're added here.
+CREATE OR REPLACE FUNCTION get_shared_trip(share_token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'trip', jsonb_build_object(
+      'id', trips.id,
+      'title', trips.title,
+      'destination', trips.destination,
+      'start_date', trips.start_date,
+      'end_date', trips.end_date,
+      'pace', trips.pace,
+      'transportation_mode', trips.transportation_mode,
+      'airport_buffer_minutes', trips.airport_buffer_minutes,
+      'time_zone', trips.time_zone,
+      'day_schedules', trips.day_schedules,
+      'departure_point_name', trips.departure_point_name,
+      'departure_point_address', trips.departure_point_address,
+      'departure_point_latitude', trips.departure_point_latitude,
+      'departure_point_longitude', trips.departure_point_longitude,
+      'return_point_name', trips.return_point_name,
+      'return_point_address', trips.return_point_address,
+      'return_point_latitude', trips.return_point_latitude,
+      'return_point_longitude', trips.return_point_longitude,
+      'same_return_point', trips.same_return_point,
+      'created_at', trips.created_at,
+      'updated_at', trips.updated_at
+    ),
+    'locations', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object(
+         'id', id,
+         'name', name,
+         'address', address,
+         'latitude', latitude,
+         'longitude', longitude,
+         'day_index', day_index,
+         'estimated_duration', estimated_duration,
+         'arrival_time', arrival_time,
+         'rating', rating,
+         'notes', notes,
+         'pinned_day', pinned_day,
+         'pinned_position', pinned_position,
+         'pinned_time', pinned_time,
+         'opening_hours', opening_hours,
+         'transportation_mode', transportation_mode,
+         'kind', kind,
+         'nights', nights,
+         'price_tier', price_tier,
+         'amenities', amenities,
+         'revision', revision
+       ) ORDER BY day_index, created_at)
+       FROM trip_locations WHERE trip_locations.trip_id = trips.id),
+      '[]'::jsonb
+    ),
+    'stays', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object(
+         'id', id,
+         'trip_id', trip_id,
+         'name', name,
+         'address', address,
+         'latitude', latitude,
+         'longitude', longitude,
+         'check_in', check_in,
+         'check_out', check_out,
+         'time_zone', time_zone
+       ) ORDER BY check_in)
+       FROM trip_stays WHERE trip_stays.trip_id = trips.id),
+      '[]'::jsonb
+    ),
+    'segments', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object(
+         'id', id,
+         'trip_id', trip_id,
+         'mode', mode,
+         'carrier', carrier,
+         'number', number,
+         'departure_station', departure_station,
+         'arrival_station', arrival_station,
+         'departure_time', departure_time,
+         'arrival_time', arrival_time,
+         'departure_time_zone', departure_time_zone,
+         'arrival_time_zone', arrival_time_zone
+       ) ORDER BY departure_time)
+       FROM trip_segments WHERE trip_segments.trip_id = trips.id),
+      '[]'::jsonb
+    )
+  )
+  FROM trip_share_links
+  JOIN trips ON trips.id = trip_share_links.trip_id
+  WHERE trip_share_links.token = share_token
+  AND trip_share_links.revoked_at IS NULL
+  AND (trip_share_links.expires_at IS NULL OR trip_share_links.expires_at > now());
+$$;
+
+REVOKE ALL ON FUNCTION get_shared_trip(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_shared_trip(text) TO anon, authenticated;
@@ -0,0 +1,203 @@
+/*
+  # Turn must-visit places into candidates members vote on
+
+  1. New Tables
+    - `trip_candidates`
+      - `id` (uuid, primary key)
+      - `trip_id` (uuid, foreign key to trips)
+      - `name` (text)
+      - `address` (text)
+      - `latitude` (double precision)
+      - `longitude` (double precision)
+      - `preferred_day` (integer): Day index it should go on, or null for any day
+      - `suggested_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `trip_candidate_votes`
+      - `candidate_id` (uuid, foreign key to trip_candidates)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `value` (smallint): 1 for an upvote, -1 for a downvote
+      - Primary key (`candidate_id`, `user_id`), so one vote per member
+    - `trip_candidate_comments`
+      - `id` (uuid, primary key)
+      - `candidate_id` (uuid, foreign key to trip_candidates)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `author_email` (text): Shown next to the comment; set from the
+        commenter's account, not by the client
+      - `body` (text)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Each trip's `must_visit_places` become candidates suggested by its creator
+    - Drop `trips.must_visit_places`
+
+  3. Security
+    - Enable RLS on all three tables
+    - Members can see candidates, votes and comments
+    - Editors and owners can add, change and remove candidates
+    - Every member, viewers included, can vote and comment as themselves, and
+      change or remove their own votes and comments
+*/
+
+CREATE TABLE IF NOT EXISTS trip_candidates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  address text NOT NULL DEFAULT '',
+  latitude double precision NOT NULL DEFAULT 0,
+  longitude double precision NOT NULL DEFAULT 0,
+  preferred_day integer CHECK (preferred_day >= 0),
+  suggested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_candidates_trip_id_idx ON trip_candidates (trip_id);
+
+CREATE TRIGGER update_trip_candidates_updated_at
+  BEFORE UPDATE ON trip_candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS trip_candidate_votes (
+  candidate_id uuid NOT NULL REFERENCES trip_candidates(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  value smallint NOT NULL CHECK (value IN (-1, 1)),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (candidate_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS trip_candidate_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_id uuid NOT NULL REFERENCES trip_candidates(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  author_email text NOT NULL DEFAULT '',
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_candidate_comments_candidate_id_idx ON trip_candidate_comments (candidate_id);
+
+-- The author shown on a comment is whoever is signed in when it's posted, and
+-- doesn't change when it's edited
+CREATE OR REPLACE FUNCTION set_comment_author()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.author_email := COALESCE(auth.jwt() ->> 'email', '');
+  ELSE
+    NEW.author_email := OLD.author_email;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_trip_candidate_comment_author
+  BEFORE INSERT OR UPDATE ON trip_candidate_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_comment_author();
+
+-- Existing must-visit places were only names; the app geocodes them when it
+-- builds the itinerary, as before
+INSERT INTO trip_candidates (trip_id, name, address, suggested_by)
+SELECT trips.id, place, place, trips.user_id
+FROM trips, unnest(trips.must_visit_places) AS place
+WHERE trim(place) <> '';
+
+ALTER TABLE trips DROP COLUMN IF EXISTS must_visit_places;
+
+ALTER TABLE trip_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trip_candidate_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trip_candidate_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can see candidates"
+  ON trip_candidates
+  FOR SELECT
+  TO authenticated
+  USING (can_view_trip(trip_id));
+
+CREATE POLICY "Editors can add candidates"
+  ON trip_candidates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can update candidates"
+  ON trip_candidates
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_trip(trip_id))
+  WITH CHECK (can_edit_trip(trip_id));
+
+CREATE POLICY "Editors can delete candidates"
+  ON trip_candidates
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_trip(trip_id));
+
+-- Votes and comments belong to a candidate the member can see; the candidate
+-- policies above decide which those are. Updates check the trip directly, so
+-- moving a vote or comment to another candidate can't reach another trip.
+CREATE POLICY "Members can see votes"
+  ON trip_candidate_votes
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM trip_candidates WHERE trip_candidates.id = candidate_id));
+
+CREATE POLICY "Members can vote"
+  ON trip_candidate_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM trip_candidates WHERE trip_candidates.id = candidate_id)
+  );
+
+CREATE POLICY "Members can change their vote"
+  ON trip_candidate_votes
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM trip_candidates c WHERE c.id = candidate_id AND can_view_trip(c.trip_id))
+  );
+
+CREATE POLICY "Members can take back their vote"
+  ON trip_candidate_votes
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Members can see comments"
+  ON trip_candidate_comments
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM trip_candidates WHERE trip_candidates.id = candidate_id));
+
+CREATE POLICY "Members can comment"
+  ON trip_candidate_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM trip_candidates WHERE trip_candidates.id = candidate_id)
+  );
+
+CREATE POLICY "Members can edit their comments"
+  ON trip_candidate_comments
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM trip_candidates c WHERE c.id = candidate_id AND can_view_trip(c.trip_id))
+  );
+
+CREATE POLICY "Members can delete their comments"
+  ON trip_candidate_comments
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,148 @@
+/*
+  # Add itinerary version history
+
+  1. New Tables
+    - `trip_versions`
+      - `id` (uuid, primary key)
+      - `trip_id` (uuid, foreign key to trips)
+      - `created_by` (uuid, foreign key to auth.users)
+      - `author_email` (text): Shown in the history; set from the author's account
+      - `note` (text): Why the version was made, e.g. a restore; null for a plain save
+      - `trip` (jsonb): The trips row as it was saved
+      - `locations` (jsonb): Its trip_locations rows as they were saved
+      - `stays` (jsonb): Its trip_stays rows at the time
+      - `segments` (jsonb): Its trip_segments rows at the time
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `create_trip_version(version_trip_id, version_note)`: Snapshots the trip,
+      its stops, stays and travel segments as they are now and returns the new
+      version. Runs with
+      the caller's permissions, so only editors and owners can snapshot.
+
+  3. Data
+    - Every existing trip gets a first version of the plan as it is now,
+      credited to the trip's creator, so the first save can be undone too
+
+  4. Security
+    - Enable RLS on `trip_versions` table
+    - Members can see a trip's versions
+    - Editors and owners can add versions; versions are never changed
+    - Owners can delete versions
+*/
+
+CREATE TABLE IF NOT EXISTS trip_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  author_email text NOT NULL DEFAULT '',
+  note text,
+  trip jsonb NOT NULL,
+  locations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  stays jsonb NOT NULL DEFAULT '[]'::jsonb,
+  segments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_versions_trip_id_created_at_idx ON trip_versions (trip_id, created_at DESC);
+
+ALTER TABLE trip_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can see versions"
+  ON trip_versions
+  FOR SELECT
+  TO authenticated
+  USING (can_view_trip(trip_id));
+
+CREATE POLICY "Editors can add versions"
+  ON trip_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_trip(trip_id) AND created_by = auth.uid());
+
+CREATE POLICY "Owners can delete versions"
+  ON trip_versions
+  FOR DELETE
+  TO authenticated
+  USING (is_trip_owner(trip_id));
+
+-- The email shown in the history comes from the author's account, not the
+-- client. Migrations run without a user and keep the author they give.
+CREATE OR REPLACE FUNCTION set_version_author()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.created_by := auth.uid();
+  END IF;
+  NEW.author_email := COALESCE((SELECT email FROM auth.users WHERE id = NEW.created_by), '');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_version_author ON trip_versions;
+CREATE TRIGGER set_version_author
+  BEFORE INSERT ON trip_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_version_author();
+
+-- Reads the saved rows rather than taking them from the client, so a version
+-- is exactly what was in the database when it was made
+CREATE OR REPLACE FUNCTION create_trip_version(version_trip_id uuid, version_note text DEFAULT NULL)
+RETURNS SETOF trip_versions
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO trip_versions (trip_id, note, trip, locations, stays, segments)
+  SELECT
+    trips.id,
+    version_note,
+    to_jsonb(trips),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(trip_locations) ORDER BY day_index, created_at)
+       FROM trip_locations WHERE trip_locations.trip_id = trips.id),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(trip_stays) ORDER BY check_in)
+       FROM trip_stays WHERE trip_stays.trip_id = trips.id),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(trip_segments) ORDER BY departure_time)
+       FROM trip_segments WHERE trip_segments.trip_id = trips.id),
+      '[]'::jsonb
+    )
+  FROM trips
+  WHERE trips.id = version_trip_id
+  RETURNING *;
+$$;
+
+REVOKE ALL ON FUNCTION create_trip_version(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_trip_version(uuid, text) TO authenticated;
+
+INSERT INTO trip_versions (trip_id, created_by, note, trip, locations, stays, segments)
+SELECT
+  trips.id,
+  trips.user_id,
+  'Before version history',
+  to_jsonb(trips),
+  COALESCE(
+    (SELECT jsonb_agg(to_jsonb(trip_locations) ORDER BY day_index, created_at)
+     FROM trip_locations WHERE trip_locations.trip_id = trips.id),
+    '[]'::jsonb
+  ),
+  COALESCE(
+    (SELECT jsonb_agg(to_jsonb(trip_stays) ORDER BY check_in)
+     FROM trip_stays WHERE trip_stays.trip_id = trips.id),
+    '[]'::jsonb
+  ),
+  COALESCE(
+    (SELECT jsonb_agg(to_jsonb(trip_segments) ORDER BY departure_time)
+     FROM trip_segments WHERE trip_segments.trip_id = trips.id),
+    '[]'::jsonb
+  )
+FROM trips;